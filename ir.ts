@@ -5,8 +5,28 @@
  */
 
 export interface IRNode {
+  /**
+   * Node id. With the default `idScheme: 'stable'` it is derived from the
+   * element's DOM path (tag, `id`, `name` and `data-testid` attributes and
+   * index among same-tag siblings, continuing through shadow hosts and owning
+   * iframes), so capturing an unchanged page again yields the same ids, at
+   * any viewport and with or without `rootSelector`.
+   *
+   * Guarantees: ids are unique within one capture; an element keeps its id as
+   * long as its own path is unchanged. Inserting a same-tag sibling before it
+   * or an ancestor, or changing a key attribute on the path, changes the id.
+   * Elements with identical fingerprints get `-2`, `-3`, ... suffixes in
+   * document order. Raw text fragments use `<parent id>~t<n>`.
+   *
+   * `idScheme: 'random'` restores the previous random per-capture ids.
+   */
   id: string;
   type: 'TEXT' | 'IMAGE' | 'FRAME' | 'SVG' | 'CANVAS' | 'VIDEO';
+  /**
+   * Lower-case tag name, or `#text` for a raw DOM text node that sits next to
+   * element children. `#text` nodes carry one rendered line each, inherit the
+   * parent's typography and have no selector.
+   */
   tag: string;
   rect: {
     x: number;
@@ -16,13 +36,21 @@ export interface IRNode {
   };
   styles: IRStyles;
   text?: string;
+  /**
+   * Styled runs inside {@link IRNode.text} for mixed-format paragraphs
+   * (`Hello <b>world</b>`). Offsets index into `text`; runs styled like the
+   * node itself are omitted.
+   */
+  textRanges?: IRTextRange[];
   image?: IRImage;
   imageSource?: ImageSource;
   /**
    * Inline binary image payload for hybrid delivery. When present, this takes
-   * precedence over base64 strings in {@link IRImage.data}.
+   * precedence over base64 strings in {@link IRImage.data}. Never part of the
+   * JSON: streamed as an IMAGE_DATA {@link BinaryFrameHeader binary frame}
+   * ahead of the node's batch and attached by the plugin.
    */
-  imageData?: number[];
+  imageData?: Uint8Array;
   /**
    * Reference metadata for streamed image delivery.
    */
@@ -34,16 +62,40 @@ export interface IRNode {
   svg?: IRSVG;
   screenshot?: string; // base64 PNG
   pseudoElements?: IRPseudoElement[];
+  /**
+   * Live state of <input>, <textarea> and <select> elements. Values typed by
+   * scripts or the user are not in the DOM attributes, so they are read from
+   * the element properties at capture time.
+   */
+  formState?: IRFormState;
   states?: IRStates;
   children: string[];
   parent?: string;
   componentHint?: string;
   selector?: string;
+  /**
+   * Selectors of the <iframe> elements (outermost first) that must be entered
+   * before {@link IRNode.selector} can be resolved. Absent for main-frame nodes.
+   */
+  framePath?: string[];
+  /**
+   * CSS custom properties (`--brand-500`) the node's styles resolve from,
+   * taken from the winning `var()` declaration of each property. Set only
+   * when the declaration is exactly `var(--name)` (aliases are followed to a
+   * :root variable) and the element sees the variable's :root value.
+   */
   tokenRefs?: {
     color?: string;
     backgroundColor?: string;
+    /** `gap` */
     spacing?: string;
+    /** All four padding sides */
+    padding?: string;
+    /** All four corners */
     radius?: string;
+    fontSize?: string;
+    /** `box-shadow` */
+    shadow?: string;
   };
   needsScreenshot?: boolean;
 }
@@ -198,28 +250,117 @@ export interface ImageProcessingMetadata {
   processingError?: string;
 }
 
-export interface ImageChunkMessage {
-  type: 'IMAGE_CHUNK';
+/**
+ * Binary `/ws` frames carry raw bytes; JSON is used for control messages only.
+ *
+ * - IMAGE_CHUNK: one chunk of a streamed image ({@link ImageChunkReference})
+ * - IMAGE_DATA: a whole inline image, sent before the NODES batch holding it
+ * - SCREENSHOT: a node's screenshot PNG. Screenshots are captured after the
+ *   DOM pass, so they usually follow the NODES batch holding the node
+ */
+export type BinaryFrameType = 'IMAGE_CHUNK' | 'IMAGE_DATA' | 'SCREENSHOT';
+
+/**
+ * Header of a binary frame. Layout (big-endian), followed by the UTF-8 node
+ * id and then the payload bytes:
+ *
+ * | offset | size | field                                            |
+ * |--------|------|--------------------------------------------------|
+ * | 0      | 1    | type (1 IMAGE_CHUNK, 2 IMAGE_DATA, 3 SCREENSHOT) |
+ * | 1      | 1    | format version (2)                               |
+ * | 2      | 2    | node id length in bytes                          |
+ * | 4      | 4    | sequence number                                  |
+ * | 8      | 4    | chunk index (0 unless IMAGE_CHUNK)               |
+ * | 12     | 4    | total chunks (1 unless IMAGE_CHUNK)              |
+ * | 16     | 4    | breakpoint index (0 for single captures)         |
+ */
+export interface BinaryFrameHeader {
+  type: BinaryFrameType;
+  sequenceNumber: number;
+  /**
+   * Index of the BREAKPOINT the frame belongs to. Node ids repeat across
+   * breakpoints, so images and screenshots are keyed by both.
+   */
+  breakpoint: number;
   nodeId: string;
   chunkIndex: number;
   totalChunks: number;
-  data: number[];
-  sequenceNumber: number;
-  timestamp: number;
+}
+
+/** A decoded binary frame, as ui.html forwards it to the plugin */
+export interface BinaryFrameMessage extends BinaryFrameHeader {
+  data: Uint8Array;
+}
+
+export interface ImageChunkMessage extends BinaryFrameMessage {
+  type: 'IMAGE_CHUNK';
 }
 
 export interface StreamMessage {
-  type: 'NODES' | 'IMAGE_CHUNK' | 'FONTS' | 'TOKENS' | 'COMPLETE' | 'ERROR' | 'PROGRESS';
+  type:
+    | 'STREAM_START'
+    | 'NODES'
+    | 'FONTS'
+    | 'TOKENS'
+    | 'BREAKPOINT'
+    | 'STATES'
+    | 'COMPLETE'
+    | 'ERROR'
+    | 'PROGRESS';
   payload?: any;
   sequenceNumber: number;
 }
 
+/** First message of a `/ws` stream; its id is what RESUME refers to */
+export interface StreamStartMessage {
+  type: 'STREAM_START';
+  payload: { streamId: string; window: number };
+  sequenceNumber: number;
+}
+
+/**
+ * Client → server messages that steer a running stream. Every sequenced
+ * message (JSON or binary frame) is acknowledged once the plugin has
+ * processed it; the server keeps at most `window` unacknowledged messages
+ * in flight.
+ */
+export type StreamControlMessage =
+  | { type: 'ACK'; sequenceNumber: number }
+  /** Resend these chunks of a streamed image */
+  | { type: 'NACK'; breakpoint: number; nodeId: string; chunkIndices: number[] }
+  /**
+   * Re-attach to a stream after the socket dropped. Every message after
+   * `lastSequence` that was not acknowledged is sent again.
+   */
+  | { type: 'RESUME'; streamId: string; lastSequence: number };
+
 export interface NodeBatchMessage {
   type: 'NODES';
   nodes: IRNode[];
   sequenceNumber: number;
 }
 
+export interface BreakpointMessage {
+  type: 'BREAKPOINT';
+  payload: BreakpointInfo & {
+    index: number;
+    total: number;
+    root?: CaptureRoot;
+    components?: IRComponent[];
+  };
+  sequenceNumber: number;
+}
+
+/**
+ * Interaction states of nodes already streamed. They are captured after
+ * the DOM pass and applied once the breakpoint is complete.
+ */
+export interface StatesMessage {
+  type: 'STATES';
+  payload: { states: Record<string, IRStates> };
+  sequenceNumber: number;
+}
+
 export interface CompleteMessage {
   type: 'COMPLETE';
   totalNodes: number;
@@ -236,17 +377,83 @@ export interface IRSVG {
   height?: string;
 }
 
+export interface IRTextRange {
+  start: number;
+  end: number;
+  styles: Pick<
+    IRStyles,
+    'fontFamily' | 'fontWeight' | 'fontStyle' | 'fontSize' | 'color' | 'textDecoration'
+  >;
+  href?: string;
+}
+
+export type IRFormControl =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'checkbox'
+  | 'radio'
+  | 'range'
+  | 'button'
+  | 'color'
+  | 'file'
+  | 'date'
+  | 'other';
+
+export interface IRFormState {
+  control: IRFormControl;
+  /** Raw `type` attribute for inputs ("email", "datetime-local", ...) */
+  inputType?: string;
+  /** Current value; password values are masked with bullets */
+  value?: string;
+  placeholder?: string;
+  /** Computed `::placeholder` styles, only set when a placeholder is shown */
+  placeholderStyles?: Pick<
+    IRStyles,
+    'color' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'fontStyle' | 'opacity'
+  >;
+  checked?: boolean;
+  indeterminate?: boolean;
+  /** <select> only */
+  selectedIndex?: number;
+  selectedText?: string;
+  options?: { value: string; text: string; selected: boolean; disabled: boolean }[];
+  /** range only */
+  min?: number;
+  max?: number;
+  step?: number;
+  disabled: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  /** Computed `accent-color`, used for checked boxes and range fills */
+  accentColor?: string;
+  /**
+   * True when the browser draws the control itself (`appearance` is not
+   * `none`), so its chrome is absent from the computed styles.
+   */
+  nativeAppearance: boolean;
+}
+
 export interface IRPseudoElement {
   type: 'before' | 'after';
   content: string;
   styles: IRStyles;
 }
 
+export type InteractionState = 'hover' | 'focus' | 'active' | 'disabled';
+
+/**
+ * Computed styles that change in a state, keyed by node id: the element
+ * itself and any descendant restyled by it (`.card:hover .title`)
+ */
+export type IRStateStyles = Record<string, Partial<IRStyles>>;
+
 export interface IRStates {
-  hover?: string; // base64 screenshot
-  focus?: string; // base64 screenshot
-  active?: string; // base64 screenshot
-  disabled?: string; // base64 screenshot
+  hover?: IRStateStyles;
+  focus?: IRStateStyles;
+  active?: IRStateStyles;
+  disabled?: IRStateStyles;
+  screenshots?: Partial<Record<InteractionState, string>>; // base64, when the state could not be forced through CDP
 }
 
 export interface TokenSystem {
@@ -259,6 +466,53 @@ export interface TokenSystem {
     fontSizes?: number[];
     fontWeights?: string[];
   };
+  /** Widths used by the page's @media rules, smallest first */
+  breakpoints?: MediaBreakpoint[];
+  /**
+   * Present when both color schemes were captured (`colorSchemes` option).
+   * Light values match the regular node styles and `explicit` tokens.
+   */
+  colorSchemes?: ColorSchemeTokens;
+}
+
+/**
+ * A viewport width at which @media rules change what applies
+ */
+export interface MediaBreakpoint {
+  /** First width (CSS px) on the new side; `max-width: 767.98px` → 768 */
+  width: number;
+  /** Rule conditions using it as a lower bound (min-width, width >=) */
+  minRules: number;
+  /** Rule conditions using it as an upper bound (max-width, width <) */
+  maxRules: number;
+  /** First few distinct media queries that reference it */
+  queries: string[];
+}
+
+export type ColorScheme = 'light' | 'dark';
+
+/**
+ * How the page switches to dark mode besides `prefers-color-scheme`
+ */
+export interface ColorSchemeToggle {
+  /** Element the class or attribute is set on. Defaults to `html` */
+  target?: string;
+  /** Class added in dark mode, e.g. `dark` */
+  className?: string;
+  /** Attribute set in dark mode, e.g. { name: 'data-theme', value: 'dark' } */
+  attribute?: { name: string; value: string };
+}
+
+export type IRColorStyles = Pick<IRStyles, 'color' | 'backgroundColor' | 'borderColor'>;
+
+/**
+ * Only the colors that differ between the light and dark passes
+ */
+export interface ColorSchemeTokens {
+  /** CSS custom property → value in each scheme */
+  variables: Record<string, Record<ColorScheme, string>>;
+  /** Node id → changed color properties in each scheme */
+  nodes: Record<string, Record<ColorScheme, IRColorStyles>>;
 }
 
 export interface ExtractedFont {
@@ -281,6 +535,118 @@ export interface ExtractedData {
     width: number;
     height: number;
   };
+  /**
+   * Emulated breakpoint this capture was taken at (multi-viewport jobs).
+   */
+  breakpoint?: BreakpointInfo;
+  /**
+   * Set when only a subtree was captured (`rootSelector`). Node rects are
+   * re-based so the top-left of `rect` sits at 0,0.
+   */
+  root?: CaptureRoot;
+  /** Repeated subtrees to build as one component plus instances */
+  components?: IRComponent[];
+}
+
+/**
+ * A subtree that repeats with the same structure and styling (cards, nav
+ * items, product tiles). Text and images may differ between occurrences;
+ * everything else matched.
+ */
+export interface IRComponent {
+  /** Derived from the structural signature, so stable across captures */
+  id: string;
+  name: string;
+  /** Occurrence whose subtree becomes the main component */
+  canonical: string;
+  /** Root node ids of every occurrence (canonical included), in document order */
+  instances: string[];
+}
+
+export interface CaptureRoot {
+  selectors: string[];
+  /** Bounds of the matched element(s) before re-basing */
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Result of a multi-viewport job: one capture per requested breakpoint.
+ */
+export interface MultiViewportData {
+  captures: ExtractedData[];
+}
+
+/**
+ * Requested viewport. Either a Playwright device preset (`device`) or explicit
+ * dimensions; explicit fields override the preset.
+ */
+export interface ViewportSpec {
+  name?: string;
+  device?: string;
+  width?: number;
+  height?: number;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  userAgent?: string;
+}
+
+/**
+ * Credentials applied to the browser context before navigation.
+ */
+export interface CaptureAuth {
+  cookies?: AuthCookie[];
+  headers?: Record<string, string>;
+  httpCredentials?: { username: string; password: string };
+  /** Playwright `storageState` JSON (cookies + per-origin localStorage) */
+  storageState?: {
+    cookies?: any[];
+    origins?: { origin: string; localStorage: { name: string; value: string }[] }[];
+  };
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+  /** Either `url` or `domain` + `path`; defaults to the captured URL */
+  url?: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Declarative pre-capture step, run after the page has loaded and before the
+ * DOM is extracted. Selectors use Playwright syntax. A failing step is
+ * reported in LoadInfo.errors and the remaining steps still run.
+ */
+export type CaptureAction =
+  | { type: 'click'; selector: string; timeout?: number }
+  | { type: 'type'; selector: string; text: string; delay?: number; timeout?: number }
+  | { type: 'hover'; selector: string; timeout?: number }
+  | { type: 'press'; key: string; selector?: string; timeout?: number }
+  | {
+      type: 'waitForSelector';
+      selector: string;
+      state?: 'attached' | 'detached' | 'visible' | 'hidden';
+      timeout?: number;
+    }
+  | { type: 'waitForTimeout'; ms: number }
+  | { type: 'scrollTo'; selector?: string; x?: number; y?: number; timeout?: number }
+  | { type: 'evaluate'; script: string; timeout?: number };
+
+export type CaptureActionType = CaptureAction['type'];
+
+export interface BreakpointInfo {
+  name: string;
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
 }
 
 export interface Asset {
@@ -297,9 +663,32 @@ export interface ExtractionOptions {
   captureStates?: boolean;
   capturePseudoElements?: boolean;
   extractSVG?: boolean;
-  viewport?: { width: number; height: number };
+  captureIframes?: boolean;
+  /** Trace `var()` usage into {@link IRNode.tokenRefs}. Defaults to true */
+  captureTokenRefs?: boolean;
+  /** Find repeated subtrees ({@link ExtractedData.components}). Defaults to true */
+  detectComponents?: boolean;
+  /** Preset name ("desktop", "tablet", "mobile"), Playwright device name or spec */
+  viewport?: string | ViewportSpec;
+  auth?: CaptureAuth;
+  actions?: CaptureAction[];
+  /**
+   * Capture only the subtree(s) matching these CSS selectors. Use `>>` to
+   * step into an open shadow root (`my-widget >> .inner`).
+   */
+  rootSelector?: string | string[];
+  /** How node ids are generated; see {@link IRNode.id}. Defaults to 'stable' */
+  idScheme?: IdScheme;
+  /**
+   * Capture light and dark mode and record the color differences in
+   * `tokens.colorSchemes`. Pass a toggle when dark mode also needs a class
+   * or attribute.
+   */
+  colorSchemes?: boolean | ColorSchemeToggle;
 }
 
+export type IdScheme = 'stable' | 'random';
+
 // Type guards
 export function isTextNode(node: IRNode): boolean {
   return node.type === 'TEXT' && !!node.text;
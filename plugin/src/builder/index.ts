@@ -31,6 +31,7 @@ export interface CapturedElement {
   stacking: StackingContext;
   transform?: TransformMatrix;
   text?: string;
+  textRanges?: TextRange[];
   image?: ImageData;
   svg?: SVGData;
   pseudoElements?: PseudoElement[];
@@ -62,6 +63,7 @@ export interface ComputedStyles {
   fontFamily?: string;
   fontSize?: string;
   fontWeight?: string;
+  fontStyle?: string;
   lineHeight?: string;
   letterSpacing?: string;
   textAlign?: string;
@@ -541,6 +543,13 @@ export interface SVGPath {
   stroke?: string;
 }
 
+export interface TextRange {
+  start: number;
+  end: number;
+  styles: ComputedStyles;
+  href?: string;
+}
+
 export interface PseudoElement {
   type: 'before' | 'after';
   content: string;
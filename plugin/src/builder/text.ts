@@ -5,7 +5,7 @@
  * Preserves inline spans, text ranges, and all typography properties
  */
 
-import { DrawableItem } from './index';
+import { DrawableItem, TextRange } from './index';
 
 export class TextProcessor {
   private fontCache = new Map<string, FontName>();
@@ -33,7 +33,7 @@ export class TextProcessor {
     
     // Handle inline text ranges if present
     if (item.element.textRanges) {
-      await this.applyTextRanges(textNode, item.element.textRanges);
+      await this.applyTextRanges(textNode, item, item.element.textRanges);
     }
     
     return textNode;
@@ -332,13 +332,24 @@ export class TextProcessor {
   /**
    * Apply inline text ranges with different styling
    */
-  private async applyTextRanges(textNode: TextNode, ranges: TextRange[]): Promise<void> {
+  private async applyTextRanges(
+    textNode: TextNode,
+    item: DrawableItem,
+    ranges: TextRange[]
+  ): Promise<void> {
+    const length = textNode.characters.length;
+
     for (const range of ranges) {
-      const { start, end, styles } = range;
+      const { styles } = range;
+      const start = Math.max(0, range.start);
+      const end = Math.min(length, range.end);
+      if (end <= start) continue;
       
-      // Apply font changes
+      // Apply font changes (unset properties inherit from the paragraph)
       if (styles.fontFamily || styles.fontWeight || styles.fontStyle) {
-        const fontName = await this.resolveFont({ element: { styles } } as any);
+        const fontName = await this.resolveFont({
+          element: { styles: { ...item.element.styles, ...styles } }
+        } as any);
         await this.ensureFontLoaded(fontName);
         textNode.setRangeFontName(start, end, fontName);
       }
@@ -370,6 +381,11 @@ export class TextProcessor {
       if (styles.textTransform) {
         textNode.setRangeTextCase(start, end, this.mapTextTransform(styles.textTransform));
       }
+      
+      // Apply links
+      if (range.href) {
+        textNode.setRangeHyperlink(start, end, { type: 'URL', value: range.href });
+      }
     }
   }
 
@@ -510,12 +526,6 @@ export class TextProcessor {
   }
 }
 
-interface TextRange {
-  start: number;
-  end: number;
-  styles: any;
-}
-
 interface RGBA {
   r: number;
   g: number;
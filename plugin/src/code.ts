@@ -23,76 +23,112 @@ interface IRNode {
   tag?: string;
   rect?: { x: number; y: number; width: number; height: number };
   text?: string;
+  textRanges?: { start: number; end: number; styles: any; href?: string }[];
   styles?: any;
   image?: any;
   svg?: any;
-  imageData?: number[];
+  imageData?: Uint8Array;
   imageChunkRef?: { isStreamed: boolean; totalChunks: number };
   componentHint?: string;
   pseudoElements?: any[];
+  formState?: any;
   parent?: string;
   children?: string[];
 }
 
+interface ImportedStyle<T extends BaseStyle> {
+  style: T;
+  /** Created by this import (and still to be named) rather than reused */
+  created: boolean;
+  uses: number;
+  /** Uses by <h1>–<h6> text */
+  headingUses: number;
+}
+
 interface StreamMessage {
   type: string;
   payload?: any;
+  sequenceNumber?: number;
 }
 
-interface ImageChunkMessage {
-  type: "IMAGE_CHUNK";
+// Binary /ws frame, decoded by ui.html
+interface BinaryFrameMessage {
+  type: "IMAGE_CHUNK" | "IMAGE_DATA" | "SCREENSHOT";
+  sequenceNumber: number;
+  breakpoint: number;
   nodeId: string;
   chunkIndex: number;
-  data: number[];
   totalChunks: number;
+  data: Uint8Array;
+}
+
+interface CaptureAction {
+  type: string;
+  [key: string]: any;
 }
 
 // Inline ImageAssembler class to avoid import issues in Figma
 interface ChunkBuffer {
+  breakpoint: number;
   nodeId: string;
   chunks: Map<number, Uint8Array>;
   totalChunks: number;
   receivedChunks: number;
   createdAt: number;
+  /** Last chunk or NACK, whichever came later */
+  lastActivityAt: number;
+  nacks: number;
 }
 
 class ImageAssembler {
   private readonly buffers = new Map<string, ChunkBuffer>();
-  private readonly TIMEOUT_MS = 30000;
+  // Quiet time before missing chunks are NACKed, and how often per image
+  private readonly NACK_DELAY_MS = 1000;
+  private readonly MAX_NACKS = 3;
+
+  /** Track an image before its first chunk, so it can be NACKed if none arrive */
+  expect(breakpoint: number, nodeId: string, totalChunks: number): void {
+    const key = streamImageKey(breakpoint, nodeId);
+    if (this.buffers.has(key)) return;
+    this.buffers.set(key, {
+      breakpoint,
+      nodeId,
+      chunks: new Map(),
+      totalChunks,
+      receivedChunks: 0,
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+      nacks: 0,
+    });
+  }
 
   addChunk(
+    breakpoint: number,
     nodeId: string,
     chunkIndex: number,
-    data: number[],
+    data: Uint8Array,
     totalChunks: number
   ): void {
-    if (!this.buffers.has(nodeId)) {
-      this.buffers.set(nodeId, {
-        nodeId,
-        chunks: new Map(),
-        totalChunks,
-        receivedChunks: 0,
-        createdAt: Date.now(),
-      });
-    }
+    this.expect(breakpoint, nodeId, totalChunks);
 
-    const buffer = this.buffers.get(nodeId)!;
-    const uint8Array = new Uint8Array(data);
+    const buffer = this.buffers.get(streamImageKey(breakpoint, nodeId))!;
+    buffer.lastActivityAt = Date.now();
     if (!buffer.chunks.has(chunkIndex)) {
-      buffer.chunks.set(chunkIndex, uint8Array);
+      buffer.chunks.set(chunkIndex, data);
       buffer.receivedChunks += 1;
     }
   }
 
-  isComplete(nodeId: string): boolean {
-    const buffer = this.buffers.get(nodeId);
+  isComplete(breakpoint: number, nodeId: string): boolean {
+    const buffer = this.buffers.get(streamImageKey(breakpoint, nodeId));
     if (!buffer) return false;
     return buffer.receivedChunks === buffer.totalChunks;
   }
 
-  assemble(nodeId: string): Uint8Array | null {
-    const buffer = this.buffers.get(nodeId);
-    if (!buffer || !this.isComplete(nodeId)) {
+  assemble(breakpoint: number, nodeId: string): Uint8Array | null {
+    const key = streamImageKey(breakpoint, nodeId);
+    const buffer = this.buffers.get(key);
+    if (!buffer || !this.isComplete(breakpoint, nodeId)) {
       return null;
     }
 
@@ -113,34 +149,84 @@ class ImageAssembler {
       offset += chunk.length;
     }
 
-    this.buffers.delete(nodeId);
+    this.buffers.delete(key);
     return assembled;
   }
 
-  cleanupTimedOut(): string[] {
+  /**
+   * Missing chunk indices of images that have gone quiet, to be NACKed.
+   * Each image is NACKed at most MAX_NACKS times.
+   */
+  collectMissing(): {
+    breakpoint: number;
+    nodeId: string;
+    chunkIndices: number[];
+  }[] {
     const now = Date.now();
-    const timedOut: string[] = [];
+    const missing: {
+      breakpoint: number;
+      nodeId: string;
+      chunkIndices: number[];
+    }[] = [];
+
+    for (const buffer of this.buffers.values()) {
+      if (buffer.receivedChunks === buffer.totalChunks) continue;
+      if (buffer.nacks >= this.MAX_NACKS) continue;
+      if (now - buffer.lastActivityAt < this.NACK_DELAY_MS) continue;
+
+      const chunkIndices: number[] = [];
+      for (let index = 0; index < buffer.totalChunks; index += 1) {
+        if (!buffer.chunks.has(index)) chunkIndices.push(index);
+      }
+      buffer.nacks += 1;
+      buffer.lastActivityAt = now;
+      missing.push({
+        breakpoint: buffer.breakpoint,
+        nodeId: buffer.nodeId,
+        chunkIndices,
+      });
+    }
+
+    return missing;
+  }
 
-    for (const [nodeId, buffer] of this.buffers.entries()) {
-      if (now - buffer.createdAt > this.TIMEOUT_MS) {
-        timedOut.push(nodeId);
-        this.buffers.delete(nodeId);
+  /** Images still incomplete after every NACK went unanswered */
+  cleanupTimedOut(): { breakpoint: number; nodeId: string }[] {
+    const now = Date.now();
+    const timedOut: { breakpoint: number; nodeId: string }[] = [];
+
+    for (const [key, buffer] of this.buffers.entries()) {
+      if (
+        buffer.nacks >= this.MAX_NACKS &&
+        now - buffer.lastActivityAt > this.NACK_DELAY_MS
+      ) {
+        timedOut.push({ breakpoint: buffer.breakpoint, nodeId: buffer.nodeId });
+        this.buffers.delete(key);
       }
     }
 
     return timedOut;
   }
 
+  clear(): void {
+    this.buffers.clear();
+  }
+
   getStatus(): { nodeId: string; progress: string; age: number }[] {
     const now = Date.now();
-    return Array.from(this.buffers.entries()).map(([nodeId, buffer]) => ({
-      nodeId,
+    return Array.from(this.buffers.values()).map((buffer) => ({
+      nodeId: buffer.nodeId,
       progress: `${buffer.receivedChunks}/${buffer.totalChunks}`,
       age: now - buffer.createdAt,
     }));
   }
 }
 
+/** Node ids repeat across breakpoints; streamed images are keyed by both */
+function streamImageKey(breakpoint: number, nodeId: string): string {
+  return `${breakpoint}:${nodeId}`;
+}
+
 // ✅ HIERARCHY BUILDER - Builds proper parent-child relationships
 interface BuildStats {
   nodesCreated: number;
@@ -159,13 +245,18 @@ class HierarchyBuilder {
     textNodes: 0,
   };
 
+  /**
+   * `builtNodes` holds layers of earlier batches: nodes whose parent is
+   * among them are appended to it instead of `rootParent`
+   */
   async buildHierarchy(
     flatNodes: any[],
     rootParent: BaseNode & ChildrenMixin,
     createNodeFn: (
       nodeData: any,
       parent: BaseNode & ChildrenMixin
-    ) => Promise<SceneNode | null>
+    ) => Promise<SceneNode | null>,
+    builtNodes?: Map<string, SceneNode>
   ): Promise<void> {
     console.log(`Building hierarchy from ${flatNodes.length} nodes...`);
 
@@ -175,6 +266,7 @@ class HierarchyBuilder {
       if (!node.parent) return true;
 
       const parentExists = nodeMap.has(node.parent);
+      if (!parentExists && builtNodes?.has(node.parent)) return true;
       if (!parentExists) {
         console.warn(
           `Orphaned node: ${node.name || node.id} (parent ${
@@ -191,9 +283,12 @@ class HierarchyBuilder {
     console.log(`Found ${roots.length} root nodes`);
 
     for (const rootNode of roots) {
+      const built = rootNode.parent ? builtNodes?.get(rootNode.parent) : undefined;
       await this.createNodeRecursive(
         rootNode,
-        rootParent,
+        built && !built.removed && "appendChild" in built
+          ? (built as BaseNode & ChildrenMixin)
+          : rootParent,
         flatNodes,
         nodeMap,
         createNodeFn,
@@ -230,8 +325,11 @@ class HierarchyBuilder {
       if (nodeData.type === "IMAGE") this.stats.imageNodes++;
       if (nodeData.type === "TEXT") this.stats.textNodes++;
 
+      // DOM order (text fragments interleaved with elements), then z-index
+      const order: string[] = nodeData.children || [];
       const children = allNodes
         .filter((n) => n.parent === nodeData.id)
+        .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id))
         .sort((a, b) => {
           const zA = a.styles?.zIndex ? parseInt(a.styles.zIndex) : 0;
           const zB = b.styles?.zIndex ? parseInt(b.styles.zIndex) : 0;
@@ -278,24 +376,72 @@ let isProcessing = false;
 let loadedFonts = new Set<string>();
 let fontMapping: Record<string, { family: string; style: string }> = {};
 const imageAssembler = new ImageAssembler();
-const pendingImageNodes = new Map<string, IRNode>();
-const streamScreenshots: Record<string, string> = {};
-const streamStates: Record<string, any> = {};
-const streamCreatedNodes = new Map<string, SceneNode>();
+// Image nodes waiting for their chunks, by streamImageKey
+const pendingImageNodes = new Map<
+  string,
+  { node: IRNode; layers: StreamLayers }
+>();
+// Inline image bytes that arrived ahead of their node's batch, per breakpoint
+const streamImageData = new Map<number, Map<string, Uint8Array>>();
 let totalStreamNodesProcessed = 0;
 const STREAM_ASSEMBLY_TIMEOUT_MS = 10000;
+const BREAKPOINT_FRAME_GAP = 100;
 let SERVER_PORT = 3000; // Default, will be updated from UI
+const AUTH_STORAGE_PREFIX = "auth:";
+const RECIPES_STORAGE_KEY = "recipes";
+// Frame that streamed nodes are built into (set per BREAKPOINT message)
+let streamRoot: FrameNode | null = null;
+// Stream messages still being built, in arrival order
+let streamQueue: Promise<void> = Promise.resolve();
+// Breakpoint frames of the current stream with their repeated subtrees and
+// interaction states, turned into components and state variants once every
+// node (and image) has arrived
+let streamComponents: {
+  container: FrameNode;
+  components: any[];
+  states: Record<string, any>;
+}[] = [];
+let nextBreakpointX = 0;
+// Request behind the current import, stored on its frames for "Refresh from URL"
+let lastCaptureRequest: any = null;
+// Text and effect styles used by the current import, by style key
+const importTextStyles = new Map<string, ImportedStyle<TextStyle>>();
+const importEffectStyles = new Map<string, ImportedStyle<EffectStyle>>();
+
+/**
+ * What the stream built into one breakpoint frame, by IR id. Ids repeat
+ * across breakpoints, so every frame gets its own
+ */
+interface StreamLayers {
+  index: number;
+  root: BaseNode & ChildrenMixin;
+  nodes: Map<string, SceneNode>;
+  // IR children of each built node, to place layers built out of order
+  childOrder: Map<string, string[]>;
+  screenshots: Record<string, Uint8Array>;
+}
+
+function createStreamLayers(
+  index: number,
+  root: BaseNode & ChildrenMixin
+): StreamLayers {
+  return {
+    index,
+    root,
+    nodes: new Map(),
+    childOrder: new Map(),
+    screenshots: {},
+  };
+}
+
+let streamLayers = createStreamLayers(0, figma.currentPage);
 
 function resetStreamState(): void {
   pendingImageNodes.clear();
-  streamCreatedNodes.clear();
+  imageAssembler.clear();
+  streamLayers = createStreamLayers(0, streamRoot || figma.currentPage);
   totalStreamNodesProcessed = 0;
-  for (const key of Object.keys(streamScreenshots)) {
-    delete streamScreenshots[key];
-  }
-  for (const key of Object.keys(streamStates)) {
-    delete streamStates[key];
-  }
+  streamImageData.clear();
 }
 
 function applyVariableFill(node: GeometryMixin, variable: Variable) {
@@ -325,12 +471,58 @@ function applyVariableFill(node: GeometryMixin, variable: Variable) {
   node.fills = [boundPaint];
 }
 
+/**
+ * Variable created for a CSS variable the page declared a property with
+ * (`IRNode.tokenRefs`), if it exists and has the expected type
+ */
+function getTokenVariable(
+  ref: string | undefined,
+  type: VariableResolvedDataType
+): Variable | null {
+  const variable = ref ? tokenVariables[ref] : undefined;
+  return variable && variable.resolvedType === type ? variable : null;
+}
+
+/**
+ * Bind gap, padding and corner radii to the variables they were declared
+ * with, so they follow the token instead of a copied number
+ */
+function bindFrameTokenRefs(frame: FrameNode, tokenRefs: any): void {
+  if (!tokenRefs || !figma.variables) return;
+
+  const bind = (fields: VariableBindableNodeField[], ref?: string) => {
+    const variable = getTokenVariable(ref, "FLOAT");
+    if (!variable) return;
+    for (const field of fields) {
+      try {
+        frame.setBoundVariable(field, variable);
+      } catch (error) {
+        console.warn(`Could not bind ${field} to ${variable.name}:`, error);
+      }
+    }
+  };
+
+  if (frame.layoutMode !== "NONE") {
+    bind(["itemSpacing"], tokenRefs.spacing);
+    bind(
+      ["paddingTop", "paddingRight", "paddingBottom", "paddingLeft"],
+      tokenRefs.padding
+    );
+  }
+  bind(
+    ["topLeftRadius", "topRightRadius", "bottomRightRadius", "bottomLeftRadius"],
+    tokenRefs.radius
+  );
+}
+
 figma.ui.onmessage = async (msg: unknown) => {
   try {
     const streamTypes = new Set([
       "NODES",
       "FONTS",
       "TOKENS",
+      "BREAKPOINT",
+      "STATES",
       "COMPLETE",
       "PROGRESS",
       "ERROR",
@@ -339,13 +531,22 @@ figma.ui.onmessage = async (msg: unknown) => {
     if (typeof msg === "object" && msg !== null) {
       const typedMsg = msg as any;
 
-      if (typedMsg.type === "IMAGE_CHUNK") {
-        handleImageChunk(typedMsg as ImageChunkMessage);
+      // Binary frames skip the queue: chunks NACKed while COMPLETE waits
+      // for its images must still get through. Each is acknowledged once
+      // stored, or applied for screenshots
+      if (typedMsg.data instanceof Uint8Array) {
+        handleBinaryFrame(typedMsg as BinaryFrameMessage);
+        return;
+      }
+
+      if (typedMsg.type === "STREAM_START") {
+        resetStreamState();
+        acknowledgeStreamMessage(typedMsg.sequenceNumber);
         return;
       }
 
       if (streamTypes.has(typedMsg.type)) {
-        await handleStreamEnvelope(typedMsg as StreamMessage);
+        await enqueueStreamMessage(typedMsg as StreamMessage);
         return;
       }
     }
@@ -361,6 +562,61 @@ figma.ui.onmessage = async (msg: unknown) => {
         await processFullPage(legacy.data);
         break;
 
+      case "capture_request":
+        lastCaptureRequest = legacy.request;
+        break;
+
+      case "refresh_selection":
+        await postRefreshTarget();
+        break;
+
+      case "refresh_data":
+        await refreshImport(legacy.targetId, legacy.data);
+        break;
+
+      case "load_auth":
+        await loadAuthProfile(legacy.domain);
+        break;
+
+      case "save_auth":
+        await figma.clientStorage.setAsync(
+          `${AUTH_STORAGE_PREFIX}${legacy.domain}`,
+          legacy.auth
+        );
+        figma.ui.postMessage({ type: "auth_saved", domain: legacy.domain });
+        break;
+
+      case "clear_auth":
+        await figma.clientStorage.deleteAsync(
+          `${AUTH_STORAGE_PREFIX}${legacy.domain}`
+        );
+        figma.ui.postMessage({
+          type: "auth_profile",
+          domain: legacy.domain,
+          auth: null,
+        });
+        break;
+
+      case "load_recipes":
+        await postRecipes();
+        break;
+
+      case "save_recipe": {
+        const recipes = await getRecipes();
+        recipes[legacy.name] = legacy.actions;
+        await figma.clientStorage.setAsync(RECIPES_STORAGE_KEY, recipes);
+        await postRecipes(legacy.name);
+        break;
+      }
+
+      case "delete_recipe": {
+        const recipes = await getRecipes();
+        delete recipes[legacy.name];
+        await figma.clientStorage.setAsync(RECIPES_STORAGE_KEY, recipes);
+        await postRecipes();
+        break;
+      }
+
       case "tokens":
         tokenVariables = await createFigmaVariables(legacy.data);
         break;
@@ -387,10 +643,54 @@ figma.ui.onmessage = async (msg: unknown) => {
   }
 };
 
+/**
+ * Per-domain capture credentials live in clientStorage so the UI can
+ * prefill them on the next import
+ */
+async function loadAuthProfile(domain: string): Promise<void> {
+  const auth = domain
+    ? await figma.clientStorage.getAsync(`${AUTH_STORAGE_PREFIX}${domain}`)
+    : null;
+  figma.ui.postMessage({ type: "auth_profile", domain, auth: auth || null });
+}
+
+/**
+ * Named pre-capture action recipes, shared across domains so a recipe such as
+ * "accept cookies" can be replayed on any import
+ */
+async function getRecipes(): Promise<Record<string, CaptureAction[]>> {
+  return (await figma.clientStorage.getAsync(RECIPES_STORAGE_KEY)) || {};
+}
+
+async function postRecipes(selected?: string): Promise<void> {
+  figma.ui.postMessage({
+    type: "recipes",
+    recipes: await getRecipes(),
+    selected,
+  });
+}
+
+/**
+ * Stream messages are built one at a time, in sequence order, and
+ * acknowledged once done; the server's send window follows that pace
+ */
+function enqueueStreamMessage(msg: StreamMessage): Promise<void> {
+  streamQueue = streamQueue
+    .then(() => handleStreamEnvelope(msg))
+    .catch((error) => console.error(`Stream message ${msg.type} failed:`, error))
+    .then(() => acknowledgeStreamMessage(msg.sequenceNumber));
+  return streamQueue;
+}
+
+function acknowledgeStreamMessage(sequenceNumber: number | undefined): void {
+  if (typeof sequenceNumber === "number") {
+    figma.ui.postMessage({ type: "STREAM_ACK", sequenceNumber });
+  }
+}
+
 async function handleStreamEnvelope(msg: StreamMessage): Promise<void> {
   switch (msg.type) {
     case "TOKENS":
-      resetStreamState();
       tokenVariables = await createFigmaVariables(msg.payload || {});
       break;
 
@@ -406,6 +706,19 @@ async function handleStreamEnvelope(msg: StreamMessage): Promise<void> {
       }
       break;
 
+    case "BREAKPOINT":
+      if (msg.payload) {
+        await handleStreamBreakpoint(msg.payload);
+      }
+      break;
+
+    // Captured after the DOM pass; variants are built on COMPLETE
+    case "STATES": {
+      const current = streamComponents[streamComponents.length - 1];
+      if (current) Object.assign(current.states, msg.payload?.states || {});
+      break;
+    }
+
     case "PROGRESS":
       figma.ui.postMessage({
         type: "PROGRESS_UPDATE",
@@ -414,6 +727,7 @@ async function handleStreamEnvelope(msg: StreamMessage): Promise<void> {
       break;
 
     case "ERROR":
+      streamRoot = null;
       figma.notify(`Error: ${msg.payload?.message || "Unknown error"}`, {
         error: true,
       });
@@ -425,11 +739,83 @@ async function handleStreamEnvelope(msg: StreamMessage): Promise<void> {
   }
 }
 
+/**
+ * Start a new breakpoint frame; following node batches are built inside it
+ */
+async function handleStreamBreakpoint(breakpoint: any): Promise<void> {
+  if (breakpoint.index === 0) {
+    nextBreakpointX = 0;
+    streamComponents = [];
+    await beginStyleCollection();
+  }
+  // Subtree captures are sized to the captured element, not the viewport
+  const size = breakpoint.root?.rect || breakpoint;
+  streamRoot = createPageContainer(
+    formatBreakpointName(breakpoint),
+    size.width,
+    size.height,
+    nextBreakpointX
+  );
+  tagImportContainer(streamRoot, breakpoint);
+  figma.currentPage.appendChild(streamRoot);
+  nextBreakpointX += size.width + BREAKPOINT_FRAME_GAP;
+
+  // Parents, screenshots and inline images are per frame. Images still
+  // waiting for chunks keep the layers of their own frame
+  streamLayers = createStreamLayers(breakpoint.index || 0, streamRoot);
+  for (const index of Array.from(streamImageData.keys())) {
+    if (index < streamLayers.index) streamImageData.delete(index);
+  }
+  streamComponents.push({
+    container: streamRoot,
+    components: breakpoint.components || [],
+    states: {},
+  });
+}
+
+/**
+ * Nodes arrive parents first, though not always in the same batch: build
+ * into the parent's layer when it exists, else into the breakpoint frame
+ */
+function getStreamParent(
+  node: IRNode,
+  layers: StreamLayers = streamLayers
+): BaseNode & ChildrenMixin {
+  const parent = node.parent ? layers.nodes.get(node.parent) : undefined;
+  return parent && !parent.removed && "appendChild" in parent
+    ? (parent as BaseNode & ChildrenMixin)
+    : layers.root;
+}
+
+/**
+ * Images are built once their chunks are in, after siblings that follow
+ * them in the DOM: move the layer back to its place among them
+ */
+function placeStreamNode(
+  node: IRNode,
+  figmaNode: SceneNode,
+  layers: StreamLayers
+): void {
+  const parent = figmaNode.parent;
+  const order = node.parent ? layers.childOrder.get(node.parent) : undefined;
+  const position = order ? order.indexOf(node.id) : -1;
+  if (!order || position === -1 || parent?.type !== "FRAME") return;
+
+  let previous: SceneNode | null = null;
+  for (const siblingId of order.slice(0, position)) {
+    const sibling = layers.nodes.get(siblingId);
+    if (sibling && !sibling.removed && sibling.parent === parent) {
+      previous = sibling;
+    }
+  }
+  placeSourceNode(figmaNode, parent, previous);
+}
+
 // ✅ UPDATED: Use hierarchy builder for streaming
 async function handleStreamNodeBatch(nodes: IRNode[]): Promise<void> {
+  const layers = streamLayers;
   const streamFullData = {
-    screenshots: streamScreenshots,
-    states: streamStates,
+    screenshots: layers.screenshots,
   };
 
   // ✅ Use hierarchy builder for stream too
@@ -439,43 +825,56 @@ async function handleStreamNodeBatch(nodes: IRNode[]): Promise<void> {
   const regularNodes = nodes.filter((n) => !n.imageChunkRef?.isStreamed);
   const deferredNodes = nodes.filter((n) => n.imageChunkRef?.isStreamed);
 
-  // Store screenshots and states
+  // Attach inline image bytes
+  const inlineImages = streamImageData.get(layers.index);
   for (const node of nodes) {
-    if ((node as any).screenshot) {
-      streamScreenshots[node.id] = (node as any).screenshot;
-    }
-    if ((node as any).states) {
-      streamStates[node.id] = (node as any).states;
+    const imageData = inlineImages?.get(node.id);
+    if (imageData) {
+      node.imageData = imageData;
+      inlineImages!.delete(node.id);
     }
   }
 
-  // Defer image nodes
+  // Defer image nodes; their chunks may already be in
   for (const node of deferredNodes) {
-    pendingImageNodes.set(node.id, node);
+    pendingImageNodes.set(streamImageKey(layers.index, node.id), {
+      node,
+      layers,
+    });
+    imageAssembler.expect(
+      layers.index,
+      node.id,
+      node.imageChunkRef!.totalChunks
+    );
     console.log(
       `Deferring image node ${node.id} (waiting for ${
         node.imageChunkRef!.totalChunks
       } chunks)`
     );
+    if (imageAssembler.isComplete(layers.index, node.id)) {
+      void createPendingImageNode(layers.index, node.id);
+    }
   }
 
   // Build hierarchy for regular nodes
   if (regularNodes.length > 0) {
     await builder.buildHierarchy(
       regularNodes,
-      figma.currentPage,
+      layers.root,
       async (nodeData, parent) => {
         const figmaNode = await createEnhancedNode(
           nodeData,
           parent,
           streamFullData,
-          streamCreatedNodes
+          layers.nodes
         );
         if (figmaNode) {
-          streamCreatedNodes.set(nodeData.id, figmaNode);
+          layers.nodes.set(nodeData.id, figmaNode);
+          layers.childOrder.set(nodeData.id, nodeData.children || []);
         }
         return figmaNode;
-      }
+      },
+      layers.nodes
     );
 
     const stats = builder.getStats();
@@ -488,17 +887,66 @@ async function handleStreamNodeBatch(nodes: IRNode[]): Promise<void> {
   });
 }
 
-function handleImageChunk(chunk: ImageChunkMessage): void {
-  imageAssembler.addChunk(
-    chunk.nodeId,
-    chunk.chunkIndex,
-    chunk.data,
-    chunk.totalChunks
-  );
+function handleBinaryFrame(frame: BinaryFrameMessage): void {
+  switch (frame.type) {
+    case "IMAGE_CHUNK":
+      imageAssembler.addChunk(
+        frame.breakpoint,
+        frame.nodeId,
+        frame.chunkIndex,
+        frame.data,
+        frame.totalChunks
+      );
+      acknowledgeStreamMessage(frame.sequenceNumber);
+      if (
+        imageAssembler.isComplete(frame.breakpoint, frame.nodeId) &&
+        pendingImageNodes.has(streamImageKey(frame.breakpoint, frame.nodeId))
+      ) {
+        void createPendingImageNode(frame.breakpoint, frame.nodeId);
+      }
+      break;
+
+    // Sent ahead of the NODES batch holding the node
+    case "IMAGE_DATA":
+      if (!streamImageData.has(frame.breakpoint)) {
+        streamImageData.set(frame.breakpoint, new Map());
+      }
+      streamImageData.get(frame.breakpoint)!.set(frame.nodeId, frame.data);
+      acknowledgeStreamMessage(frame.sequenceNumber);
+      break;
 
-  if (imageAssembler.isComplete(chunk.nodeId)) {
-    void createPendingImageNode(chunk.nodeId);
+    // Usually arrives after its node was built. Stored and attached in
+    // stream order, so it lands in its own breakpoint's frame
+    case "SCREENSHOT":
+      streamQueue = streamQueue
+        .then(() => {
+          streamLayers.screenshots[frame.nodeId] = frame.data;
+          return attachStreamScreenshot(frame.nodeId);
+        })
+        .catch((error) =>
+          console.error(`Screenshot of ${frame.nodeId} failed:`, error)
+        )
+        .then(() => acknowledgeStreamMessage(frame.sequenceNumber));
+      break;
+  }
+}
+
+/**
+ * Give a layer built before its screenshot arrived the look it gets when
+ * the screenshot is there at build time: no own fills or redrawn form
+ * control, the screenshot behind its children
+ */
+async function attachStreamScreenshot(nodeId: string): Promise<void> {
+  const node = streamLayers.nodes.get(nodeId);
+  const screenshot = streamLayers.screenshots[nodeId];
+  if (!node || node.removed || node.type !== "FRAME" || !screenshot) return;
+  if (node.findChild((child) => child.name === "__screenshot-bg")) return;
+
+  node.fills = [];
+  for (const child of node.children) {
+    if (child.getPluginData("formControl")) child.remove();
   }
+  await applyScreenshotBackground(node, screenshot);
 }
 
 function createPlaceholderForFailedImage(node: IRNode): SceneNode {
@@ -519,39 +967,47 @@ function createPlaceholderForFailedImage(node: IRNode): SceneNode {
   return placeholder;
 }
 
-async function createPendingImageNode(nodeId: string): Promise<void> {
-  const node = pendingImageNodes.get(nodeId);
-  if (!node) {
+async function createPendingImageNode(
+  breakpoint: number,
+  nodeId: string
+): Promise<void> {
+  const key = streamImageKey(breakpoint, nodeId);
+  const pending = pendingImageNodes.get(key);
+  if (!pending) {
     console.error(`No pending node found for ${nodeId}`);
     return;
   }
 
-  const assembled = imageAssembler.assemble(nodeId);
+  const assembled = imageAssembler.assemble(breakpoint, nodeId);
   if (!assembled) {
     console.error(`Failed to assemble image for node ${nodeId}`);
     return;
   }
 
-  node.imageData = Array.from(assembled);
+  // Built into its own breakpoint's frame, which may no longer be the
+  // one the stream is on
+  const { node, layers } = pending;
+  node.imageData = assembled;
   delete node.imageChunkRef;
 
   const streamFullData = {
-    screenshots: streamScreenshots,
-    states: streamStates,
+    screenshots: layers.screenshots,
   };
 
   const figmaNode = await createEnhancedNode(
     node,
-    figma.currentPage,
+    getStreamParent(node, layers),
     streamFullData,
-    streamCreatedNodes
+    layers.nodes
   );
   if (figmaNode) {
-    streamCreatedNodes.set(node.id, figmaNode);
+    placeStreamNode(node, figmaNode, layers);
+    layers.nodes.set(node.id, figmaNode);
+    layers.childOrder.set(node.id, node.children || []);
     totalStreamNodesProcessed += 1;
   }
 
-  pendingImageNodes.delete(nodeId);
+  pendingImageNodes.delete(key);
 
   figma.ui.postMessage({
     type: "IMAGE_ASSEMBLED",
@@ -560,6 +1016,20 @@ async function createPendingImageNode(nodeId: string): Promise<void> {
   });
 }
 
+/** Stand in for an image whose chunks never all arrived */
+function placeFailedImage(key: string): void {
+  const pending = pendingImageNodes.get(key);
+  if (!pending) return;
+
+  const { node, layers } = pending;
+  const placeholder = createPlaceholderForFailedImage(node);
+  getStreamParent(node, layers).appendChild(placeholder);
+  placeStreamNode(node, placeholder, layers);
+  layers.nodes.set(node.id, placeholder);
+  pendingImageNodes.delete(key);
+  totalStreamNodesProcessed += 1;
+}
+
 async function handleStreamComplete(payload: any): Promise<void> {
   const maxWait = STREAM_ASSEMBLY_TIMEOUT_MS;
   const startTime = Date.now();
@@ -567,45 +1037,127 @@ async function handleStreamComplete(payload: any): Promise<void> {
   while (pendingImageNodes.size > 0 && Date.now() - startTime < maxWait) {
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const timedOut = imageAssembler.cleanupTimedOut();
-    if (timedOut.length > 0) {
-      for (const nodeId of timedOut) {
-        const node = pendingImageNodes.get(nodeId);
-        if (!node) continue;
-
-        const placeholder = createPlaceholderForFailedImage(node as any);
-        figma.currentPage.appendChild(placeholder);
-        streamCreatedNodes.set(nodeId, placeholder);
-        pendingImageNodes.delete(nodeId);
-        totalStreamNodesProcessed += 1;
-      }
+    for (const { breakpoint, nodeId, chunkIndices } of imageAssembler.collectMissing()) {
+      console.warn(`Requesting ${chunkIndices.length} missing chunks of ${nodeId}`);
+      figma.ui.postMessage({
+        type: "STREAM_NACK",
+        breakpoint,
+        nodeId,
+        chunkIndices,
+      });
+    }
+
+    for (const { breakpoint, nodeId } of imageAssembler.cleanupTimedOut()) {
+      placeFailedImage(streamImageKey(breakpoint, nodeId));
     }
   }
 
   if (pendingImageNodes.size > 0) {
     const stuck = Array.from(pendingImageNodes.keys());
     console.error(`${pendingImageNodes.size} images never completed:`, stuck);
-    for (const nodeId of stuck) {
-      const node = pendingImageNodes.get(nodeId);
-      if (!node) continue;
+    stuck.forEach(placeFailedImage);
+  }
 
-      const placeholder = createPlaceholderForFailedImage(node as any);
-      figma.currentPage.appendChild(placeholder);
-      streamCreatedNodes.set(nodeId, placeholder);
-      pendingImageNodes.delete(nodeId);
-      totalStreamNodesProcessed += 1;
-    }
+  streamRoot = null;
+  let stateSets = 0;
+  let instances = 0;
+  for (const { container, components, states } of streamComponents) {
+    stateSets += await buildStateVariants(container, states, components);
+    instances += await componentizeImport(container, components);
   }
+  streamComponents = [];
+  const styles = await finishStyleCollection();
 
   figma.notify(
-    `✓ Import complete: ${totalStreamNodesProcessed} nodes created`,
+    `✓ Import complete: ${totalStreamNodesProcessed} nodes created` +
+      formatImportCounts([
+        [instances, "component instances"],
+        [stateSets, "state variant sets"],
+        [styles.text, "text styles"],
+        [styles.effects, "effect styles"],
+      ]),
     { timeout: 3000 }
   );
   console.log("Import stats:", payload);
 }
 
+function createPageContainer(
+  name: string,
+  width: number,
+  height: number,
+  x: number
+): FrameNode {
+  const container = figma.createFrame();
+  container.name = name;
+  container.x = x;
+  container.y = 0;
+  container.resize(Math.max(1, width), Math.max(1, height));
+  container.fills = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
+  container.clipsContent = false;
+  return container;
+}
+
+/** ", 2 state variant sets" for every count above zero */
+function formatImportCounts(counts: [number, string][]): string {
+  return counts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `, ${count} ${label}`)
+    .join("");
+}
+
+function formatBreakpointName(breakpoint: any): string {
+  return `Imported Page — ${breakpoint.name} (${breakpoint.width}×${breakpoint.height})`;
+}
+
 // ✅ UPDATED: Use hierarchy builder for full page import
 async function processFullPage(data: any) {
+  await beginStyleCollection();
+
+  // Multi-viewport jobs: one frame per breakpoint, side by side
+  if (Array.isArray(data.captures)) {
+    const containers: FrameNode[] = [];
+    let x = 0;
+
+    for (let index = 0; index < data.captures.length; index++) {
+      const capture = data.captures[index];
+      // Tokens are shared across breakpoints; only create them once
+      const container = await buildPageFrame(
+        index === 0 ? capture : { ...capture, tokens: undefined },
+        capture.breakpoint
+          ? formatBreakpointName(capture.breakpoint)
+          : "Imported Page",
+        x
+      );
+      containers.push(container);
+      x += container.width + BREAKPOINT_FRAME_GAP;
+    }
+
+    notifyCreatedStyles(await finishStyleCollection());
+    if (containers.length > 0) {
+      figma.viewport.scrollAndZoomIntoView(containers);
+    }
+    return;
+  }
+
+  const container = await buildPageFrame(data, "Imported Page", 0);
+  notifyCreatedStyles(await finishStyleCollection());
+  figma.viewport.scrollAndZoomIntoView([container]);
+}
+
+/** Styles are named once every frame of an import is built */
+function notifyCreatedStyles(styles: { text: number; effects: number }): void {
+  if (styles.text === 0 && styles.effects === 0) return;
+  figma.notify(
+    `✓ Created ${styles.text} text styles and ${styles.effects} effect styles`,
+    { timeout: 3000 }
+  );
+}
+
+async function buildPageFrame(
+  data: any,
+  name: string,
+  x: number
+): Promise<FrameNode> {
   const startTime = Date.now();
 
   // Step 1: Process fonts
@@ -619,14 +1171,10 @@ async function processFullPage(data: any) {
     tokenVariables = await createFigmaVariables(data.tokens);
   }
 
-  // Step 3: Create container
-  const container = figma.createFrame();
-  container.name = "Imported Page";
-  container.x = 0;
-  container.y = 0;
-  container.resize(data.viewport.width, data.viewport.height);
-  container.fills = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
-  container.clipsContent = false;
+  // Step 3: Create container (sized to the captured element for subtree captures)
+  const size = data.root?.rect || data.viewport;
+  const container = createPageContainer(name, size.width, size.height, x);
+  tagImportContainer(container, data.breakpoint);
 
   // ✅ Step 4: Build hierarchy using HierarchyBuilder
   const builder = new HierarchyBuilder();
@@ -652,13 +1200,546 @@ async function processFullPage(data: any) {
   const stats = builder.getStats();
 
   figma.currentPage.appendChild(container);
-  figma.viewport.scrollAndZoomIntoView([container]);
+  const stateSets = await buildStateVariants(container, data.states, data.components);
+  const instances = await componentizeImport(container, data.components);
 
   const elapsed = Date.now() - startTime;
   figma.notify(
-    `✓ Import complete: ${stats.nodesCreated} nodes (${stats.maxDepth} levels) in ${elapsed}ms`,
+    `✓ Import complete: ${stats.nodesCreated} nodes (${stats.maxDepth} levels) in ${elapsed}ms` +
+      formatImportCounts([
+        [instances, "component instances"],
+        [stateSets, "state variant sets"],
+      ]),
     { timeout: 3000 }
   );
+
+  return container;
+}
+
+/**
+ * Refresh from URL
+ *
+ * Every imported layer records the IR node it was built from. Refreshing
+ * re-captures the page with the request stored on the import frame, then
+ * patches only the layers whose source changed so renamed, annotated or
+ * otherwise edited layers survive.
+ */
+interface SourceState {
+  parent: string;
+  type: string;
+  rect: { x: number; y: number; width: number; height: number };
+  style: string;
+  content: string;
+}
+
+interface RefreshSummary {
+  added: number;
+  removed: number;
+  moved: number;
+  restyled: number;
+  textChanged: number;
+}
+
+const RECT_TOLERANCE = 0.5;
+
+function tagImportContainer(container: FrameNode, breakpoint?: any): void {
+  if (!lastCaptureRequest?.url) return;
+
+  // Credentials never go into the document; they are re-read from the UI
+  const request = { ...lastCaptureRequest };
+  delete request.auth;
+  delete request.viewports;
+  if (breakpoint) {
+    request.viewport = {
+      name: breakpoint.name,
+      width: breakpoint.width,
+      height: breakpoint.height,
+      deviceScaleFactor: breakpoint.deviceScaleFactor,
+      isMobile: breakpoint.isMobile,
+      hasTouch: breakpoint.hasTouch,
+    };
+  }
+
+  container.setPluginData("sourceUrl", request.url);
+  container.setPluginData("captureRequest", JSON.stringify(request));
+}
+
+function tagSourceNode(
+  node: SceneNode,
+  nodeData: any,
+  hasScreenshot: boolean
+): void {
+  node.setPluginData("irId", nodeData.id);
+  node.setPluginData("irSelector", nodeData.selector || "");
+  node.setPluginData(
+    "irState",
+    JSON.stringify(getSourceState(nodeData, hasScreenshot))
+  );
+}
+
+function getSourceState(nodeData: any, hasScreenshot: boolean): SourceState {
+  return {
+    parent: nodeData.parent || "",
+    type: nodeData.type,
+    rect: nodeData.rect,
+    style: hashValue({
+      styles: nodeData.styles,
+      pseudoElements: nodeData.pseudoElements,
+      hasScreenshot,
+    }),
+    content: hashValue({
+      text: nodeData.text,
+      textRanges: nodeData.textRanges,
+      formState: nodeData.formState,
+      image: nodeData.image?.url,
+      svg: nodeData.svg?.content,
+    }),
+  };
+}
+
+function readSourceState(node: SceneNode): SourceState | null {
+  try {
+    return JSON.parse(node.getPluginData("irState"));
+  } catch (e) {
+    return null;
+  }
+}
+
+function hashValue(value: unknown): string {
+  const text = JSON.stringify(value) || "";
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function rectChanged(
+  a: SourceState["rect"] | undefined,
+  b: SourceState["rect"] | undefined
+): boolean {
+  if (!a || !b) return a !== b;
+  return (
+    Math.abs(a.x - b.x) > RECT_TOLERANCE ||
+    Math.abs(a.y - b.y) > RECT_TOLERANCE ||
+    Math.abs(a.width - b.width) > RECT_TOLERANCE ||
+    Math.abs(a.height - b.height) > RECT_TOLERANCE
+  );
+}
+
+function isSourceNode(node: BaseNode): boolean {
+  return node.getPluginData("irId") !== "";
+}
+
+function findImportContainer(node: BaseNode | null): FrameNode | null {
+  while (node && node.type !== "PAGE" && node.type !== "DOCUMENT") {
+    if (node.type === "FRAME" && node.getPluginData("sourceUrl")) {
+      return node;
+    }
+    node = node.parent;
+  }
+  return null;
+}
+
+async function postRefreshTarget(): Promise<void> {
+  const container = findImportContainer(figma.currentPage.selection[0] || null);
+  if (!container) {
+    figma.ui.postMessage({
+      type: "refresh_error",
+      message: "Select an imported frame, or a layer inside one, to refresh",
+    });
+    return;
+  }
+
+  figma.ui.postMessage({
+    type: "refresh_target",
+    targetId: container.id,
+    request: JSON.parse(container.getPluginData("captureRequest")),
+  });
+}
+
+async function refreshImport(targetId: string, data: any): Promise<void> {
+  const container = await figma.getNodeByIdAsync(targetId);
+  if (!container || container.type !== "FRAME") {
+    figma.ui.postMessage({
+      type: "refresh_error",
+      message: "The imported frame no longer exists",
+    });
+    return;
+  }
+
+  if (data.fonts && data.fonts.length > 0) {
+    await processFonts(data.fonts);
+  }
+  await beginStyleCollection();
+
+  const incoming = new Map<string, any>(
+    data.nodes.map((node: any) => [node.id, node])
+  );
+  detachChangedInstances(container, incoming, data);
+
+  const existing = new Map<string, SceneNode>();
+  for (const node of container.findAll(isSourceNode)) {
+    existing.set(node.getPluginData("irId"), node);
+  }
+  const summary: RefreshSummary = {
+    added: 0,
+    removed: 0,
+    moved: 0,
+    restyled: 0,
+    textChanged: 0,
+  };
+  const createdNodes = new Map<string, SceneNode>();
+
+  // Same ordering as HierarchyBuilder: DOM order, then z-index
+  const childrenOf = (nodeData: any | null): any[] => {
+    const order: string[] = nodeData?.children || [];
+    return data.nodes
+      .filter((n: any) =>
+        nodeData
+          ? n.parent === nodeData.id
+          : !n.parent || !incoming.has(n.parent)
+      )
+      .sort((a: any, b: any) => order.indexOf(a.id) - order.indexOf(b.id))
+      .sort((a: any, b: any) => {
+        const zA = a.styles?.zIndex ? parseInt(a.styles.zIndex) : 0;
+        const zB = b.styles?.zIndex ? parseInt(b.styles.zIndex) : 0;
+        return zA - zB;
+      });
+  };
+
+  const visit = async (
+    nodeData: any,
+    figmaParent: FrameNode,
+    previous: SceneNode | null
+  ): Promise<SceneNode | null> => {
+    const node = await refreshSourceNode(
+      nodeData,
+      existing.get(nodeData.id),
+      figmaParent,
+      data,
+      incoming,
+      createdNodes,
+      summary
+    );
+    if (!node) return previous;
+
+    placeSourceNode(node, figmaParent, previous);
+    createdNodes.set(nodeData.id, node);
+
+    if (node.type === "FRAME") {
+      let previousChild: SceneNode | null = null;
+      for (const child of childrenOf(nodeData)) {
+        previousChild = await visit(child, node, previousChild);
+      }
+    }
+    return node;
+  };
+
+  let previousRoot: SceneNode | null = null;
+  for (const rootData of childrenOf(null)) {
+    previousRoot = await visit(rootData, container, previousRoot);
+  }
+
+  // Removals last, so children that moved out of a removed parent survive
+  for (const [id, node] of existing) {
+    if (incoming.has(id) || node.removed) continue;
+    node.remove();
+    summary.removed++;
+  }
+
+  const size = data.root?.rect || data.viewport;
+  if (size) {
+    container.resize(Math.max(1, size.width), Math.max(1, size.height));
+  }
+  await finishStyleCollection();
+
+  const message = `✓ Refreshed: ${summary.added} added, ${summary.removed} removed, ${summary.moved} moved, ${summary.restyled} restyled, ${summary.textChanged} text changes`;
+  figma.notify(message, { timeout: 4000 });
+  figma.ui.postMessage({ type: "refresh_complete", summary, message });
+}
+
+async function refreshSourceNode(
+  nodeData: any,
+  existingNode: SceneNode | undefined,
+  figmaParent: FrameNode,
+  data: any,
+  incoming: Map<string, any>,
+  createdNodes: Map<string, SceneNode>,
+  summary: RefreshSummary
+): Promise<SceneNode | null> {
+  const hasScreenshot = !!data.screenshots?.[nodeData.id];
+
+  if (!existingNode || existingNode.removed) {
+    summary.added++;
+    return createEnhancedNode(nodeData, figmaParent, data, createdNodes);
+  }
+
+  const previous = readSourceState(existingNode);
+  const next = getSourceState(nodeData, hasScreenshot);
+  if (!previous) {
+    return replaceSourceNode(existingNode, nodeData, figmaParent, data, createdNodes);
+  }
+
+  const parentChanged = existingNode.parent !== figmaParent;
+  const geometryChanged = rectChanged(previous.rect, next.rect);
+  const styleChanged = previous.style !== next.style;
+  const contentChanged = previous.content !== next.content;
+
+  if (parentChanged || geometryChanged) summary.moved++;
+  if (contentChanged && nodeData.type === "TEXT") {
+    summary.textChanged++;
+  } else if (styleChanged || contentChanged || previous.type !== next.type) {
+    summary.restyled++;
+  }
+
+  if (previous.type !== next.type) {
+    return replaceSourceNode(existingNode, nodeData, figmaParent, data, createdNodes);
+  }
+
+  if (existingNode.type === "INSTANCE") {
+    // detachChangedInstances left only changes that overrides can carry
+    await refreshInstanceLayers(existingNode, incoming, data, summary);
+  } else if (styleChanged || contentChanged) {
+    // Containers keep their layer (and the user's edits to it); leaves are rebuilt
+    if (existingNode.type === "FRAME" && !["TEXT", "IMAGE", "SVG"].includes(nodeData.type)) {
+      await restyleFrameInPlace(existingNode, nodeData, data);
+    } else {
+      return replaceSourceNode(existingNode, nodeData, figmaParent, data, createdNodes);
+    }
+  }
+
+  if (geometryChanged) {
+    existingNode.x = nodeData.rect.x;
+    existingNode.y = nodeData.rect.y;
+    if ("resize" in existingNode) {
+      existingNode.resize(
+        Math.max(1, nodeData.rect.width),
+        Math.max(1, nodeData.rect.height)
+      );
+    }
+  }
+
+  existingNode.setPluginData("irState", JSON.stringify(next));
+  existingNode.setPluginData("irSelector", nodeData.selector || "");
+  return existingNode;
+}
+
+/**
+ * Rebuild a layer from fresh data, carrying its IR children over
+ */
+async function replaceSourceNode(
+  oldNode: SceneNode,
+  nodeData: any,
+  figmaParent: FrameNode,
+  data: any,
+  createdNodes: Map<string, SceneNode>
+): Promise<SceneNode | null> {
+  const node = await createEnhancedNode(nodeData, figmaParent, data, createdNodes);
+  if (!node) return null;
+
+  if ("children" in oldNode && "appendChild" in node) {
+    for (const child of [...oldNode.children]) {
+      if (isSourceNode(child)) node.appendChild(child);
+    }
+  }
+
+  const index = oldNode.parent === figmaParent
+    ? figmaParent.children.indexOf(oldNode)
+    : -1;
+  oldNode.remove();
+  if (index !== -1) figmaParent.insertChild(index, node);
+  return node;
+}
+
+/**
+ * Component instances cannot gain, lose or restyle layers. Those whose
+ * occurrence changed beyond text and image content are detached into plain
+ * frames, keeping their source tags, so the refresh can rebuild them layer
+ * by layer; the rest stay instances and get their changes as overrides.
+ */
+function detachChangedInstances(
+  parent: BaseNode & ChildrenMixin,
+  incoming: Map<string, any>,
+  data: any
+): void {
+  for (const child of [...parent.children]) {
+    let node: SceneNode = child;
+    if (node.type === "INSTANCE" && isSourceNode(node) && !instanceStillMatches(node, incoming, data)) {
+      const tags = readSourceTags(node);
+      node = node.detachInstance();
+      writeSourceTags(node, tags);
+    }
+    if (node.type === "FRAME") {
+      detachChangedInstances(node, incoming, data);
+    }
+  }
+}
+
+function instanceStillMatches(
+  instance: InstanceNode,
+  incoming: Map<string, any>,
+  data: any
+): boolean {
+  const layers = [instance, ...instance.findAll(isSourceNode)];
+  const ids = new Set(layers.map((layer) => layer.getPluginData("irId")));
+
+  for (const layer of layers) {
+    const nodeData = incoming.get(layer.getPluginData("irId"));
+    const previous = readSourceState(layer);
+    if (!nodeData || !previous) return false;
+
+    const next = getSourceState(nodeData, !!data.screenshots?.[nodeData.id]);
+    if (previous.type !== next.type || previous.style !== next.style) return false;
+    if (layer === instance) {
+      // The instance itself can move and resize
+      if (previous.content !== next.content) return false;
+      continue;
+    }
+    if (previous.parent !== next.parent || rectChanged(previous.rect, next.rect)) {
+      return false;
+    }
+    if (previous.content !== next.content && !["TEXT", "IMAGE"].includes(next.type)) {
+      return false;
+    }
+  }
+
+  // No new layers inside the occurrence
+  return data.nodes.every((node: any) => !ids.has(node.parent) || ids.has(node.id));
+}
+
+/**
+ * Bring the text and images inside an instance up to date as overrides.
+ * Text bound to a component property is set through the property.
+ */
+async function refreshInstanceLayers(
+  instance: InstanceNode,
+  incoming: Map<string, any>,
+  data: any,
+  summary: RefreshSummary
+): Promise<void> {
+  for (const layer of instance.findAll(isSourceNode)) {
+    const nodeData = incoming.get(layer.getPluginData("irId"));
+    const previous = readSourceState(layer);
+    if (!nodeData || !previous) continue;
+
+    const next = getSourceState(nodeData, !!data.screenshots?.[nodeData.id]);
+    if (previous.content !== next.content) {
+      const fresh = await createEnhancedNode(nodeData, figma.currentPage, data, new Map());
+      if (fresh && layer.type === "TEXT" && fresh.type === "TEXT") {
+        await setInstanceText(layer, fresh.characters);
+        summary.textChanged++;
+      } else if (fresh && "fills" in layer && "fills" in fresh) {
+        layer.fills = fresh.fills;
+        summary.restyled++;
+      }
+      fresh?.remove();
+    }
+
+    layer.setPluginData("irState", JSON.stringify(next));
+    layer.setPluginData("irSelector", nodeData.selector || "");
+  }
+}
+
+async function setInstanceText(layer: TextNode, characters: string): Promise<void> {
+  const property = layer.componentPropertyReferences?.characters;
+  let owner: BaseNode | null = layer.parent;
+  while (owner && owner.type !== "INSTANCE") owner = owner.parent;
+
+  if (property && owner) {
+    (owner as InstanceNode).setProperties({ [property]: characters });
+    return;
+  }
+  const fonts = layer.characters.length > 0
+    ? layer.getRangeAllFontNames(0, layer.characters.length)
+    : [layer.fontName as FontName];
+  await Promise.all(fonts.map((font) => figma.loadFontAsync(font)));
+  layer.characters = characters;
+}
+
+/**
+ * Apply new visual properties to an existing frame without touching its
+ * IR children. Screenshot backgrounds, pseudo-elements and form control
+ * chrome are swapped for freshly built ones.
+ */
+async function restyleFrameInPlace(
+  frame: FrameNode,
+  nodeData: any,
+  data: any
+): Promise<void> {
+  const fresh = await createEnhancedNode(
+    nodeData,
+    figma.currentPage,
+    data,
+    new Map()
+  );
+  if (!fresh) return;
+  if (fresh.type !== "FRAME") {
+    fresh.remove();
+    return;
+  }
+
+  frame.fills = fresh.fills;
+  frame.strokes = fresh.strokes;
+  frame.strokeWeight = fresh.strokeWeight;
+  frame.topLeftRadius = fresh.topLeftRadius;
+  frame.topRightRadius = fresh.topRightRadius;
+  frame.bottomRightRadius = fresh.bottomRightRadius;
+  frame.bottomLeftRadius = fresh.bottomLeftRadius;
+  frame.opacity = fresh.opacity;
+  if (fresh.effectStyleId) {
+    await frame.setEffectStyleIdAsync(fresh.effectStyleId);
+  } else {
+    frame.effects = fresh.effects;
+  }
+  frame.clipsContent = fresh.clipsContent;
+  frame.layoutMode = fresh.layoutMode;
+  if (fresh.layoutMode !== "NONE") {
+    frame.itemSpacing = fresh.itemSpacing;
+    frame.paddingTop = fresh.paddingTop;
+    frame.paddingRight = fresh.paddingRight;
+    frame.paddingBottom = fresh.paddingBottom;
+    frame.paddingLeft = fresh.paddingLeft;
+    frame.primaryAxisAlignItems = fresh.primaryAxisAlignItems;
+    frame.counterAxisAlignItems = fresh.counterAxisAlignItems;
+  }
+  bindFrameTokenRefs(frame, nodeData.tokenRefs);
+
+  for (const child of [...frame.children]) {
+    if (!isSourceNode(child)) child.remove();
+  }
+  let leading = 0;
+  for (const decoration of [...fresh.children]) {
+    if (decoration.name === "::after") {
+      frame.appendChild(decoration);
+    } else {
+      frame.insertChild(leading++, decoration);
+    }
+  }
+
+  fresh.remove();
+}
+
+/**
+ * Keep DOM order among siblings: right after the previous IR sibling, or
+ * ahead of the first IR child when there is none
+ */
+function placeSourceNode(
+  node: SceneNode,
+  parent: FrameNode,
+  previous: SceneNode | null
+): void {
+  const siblings = parent.children;
+  let target =
+    previous && previous.parent === parent
+      ? siblings.indexOf(previous) + 1
+      : siblings.findIndex(isSourceNode);
+  if (target === -1) target = siblings.length;
+
+  const current = node.parent === parent ? siblings.indexOf(node) : -1;
+  if (current !== -1 && current < target) target -= 1;
+  if (current !== target) parent.insertChild(target, node);
 }
 
 async function processBufferedNodes() {
@@ -755,7 +1836,6 @@ async function createEnhancedNode(
   try {
     const hasScreenshot =
       fullData.screenshots && fullData.screenshots[nodeData.id];
-    const hasStates = fullData.states && fullData.states[nodeData.id];
 
     // Create base node based on type
     if (nodeData.type === "TEXT" && nodeData.text) {
@@ -781,6 +1861,16 @@ async function createEnhancedNode(
       );
     }
 
+    // Raw text fragments are single rendered lines; never let them re-wrap
+    if (nodeData.tag === "#text" && node.type === "TEXT") {
+      node.textAutoResize = "WIDTH_AND_HEIGHT";
+    }
+
+    // Form controls: redraw value, placeholder and browser-drawn chrome
+    if (nodeData.formState && !hasScreenshot && node.type === "FRAME") {
+      await drawFormControl(node, nodeData);
+    }
+
     // PHASE 3: Apply screenshot as background
     if (hasScreenshot && "appendChild" in node) {
       await applyScreenshotBackground(
@@ -799,16 +1889,9 @@ async function createEnhancedNode(
       }
     }
 
-    // PHASE 6: Create state variants
-    if (hasStates && "appendChild" in node) {
-      await createStateVariants(
-        node as FrameNode,
-        fullData.states[nodeData.id]
-      );
-    }
-
     node.name =
       nodeData.name || nodeData.componentHint || nodeData.tag || "element";
+    tagSourceNode(node, nodeData, !!hasScreenshot);
 
     // ✅ Parent is now passed by HierarchyBuilder
     if (parent && "appendChild" in parent) {
@@ -831,40 +1914,27 @@ async function createTextNode(
 ): Promise<TextNode> {
   const textNode = figma.createText();
 
-  // Determine font
-  let fontFamily = "Inter";
-  let fontStyle = "Regular";
-
-  if (nodeData.styles.fontFamily) {
-    const webFontFamily = nodeData.styles.fontFamily
-      .split(",")[0]
-      .replace(/['"]/g, "")
-      .trim();
-    const mapped = fontMapping[webFontFamily] || mapToFigmaFont(webFontFamily);
-    fontFamily = mapped.family;
-    fontStyle = mapped.style;
-  }
-
-  // Determine style based on weight
-  if (nodeData.styles.fontWeight) {
-    const weight = parseInt(nodeData.styles.fontWeight);
-    if (weight >= 700) fontStyle = "Bold";
-    else if (weight >= 600) fontStyle = "Semi Bold";
-    else if (weight >= 500) fontStyle = "Medium";
-    else if (weight < 400) fontStyle = "Light";
-  }
-
-  await ensureFontLoaded(fontFamily, fontStyle);
-  textNode.fontName = { family: fontFamily, style: fontStyle };
+  const font = resolveFigmaFont(nodeData.styles);
+  textNode.fontName = await ensureFontLoaded(font.family, font.style);
   textNode.characters = nodeData.text || "";
 
   // Apply text styles
   if (nodeData.styles.fontSize) {
     textNode.fontSize = parseFloat(nodeData.styles.fontSize);
   }
+  const fontSizeToken = getTokenVariable(nodeData.tokenRefs?.fontSize, "FLOAT");
+  if (fontSizeToken) {
+    try {
+      textNode.setBoundVariable("fontSize", fontSizeToken);
+    } catch (error) {
+      console.warn("Could not bind font size:", error);
+    }
+  }
 
   if (nodeData.styles.color && !hasScreenshot) {
-    const colorToken = tokenVariables[nodeData.styles.color];
+    const colorToken =
+      getTokenVariable(nodeData.tokenRefs?.color, "COLOR") ||
+      tokenVariables[nodeData.styles.color];
     if (colorToken) {
       applyVariableFill(textNode, colorToken);
     } else {
@@ -902,23 +1972,336 @@ async function createTextNode(
     if (["LEFT", "CENTER", "RIGHT", "JUSTIFIED"].includes(align)) {
       textNode.textAlignHorizontal = align as any;
     }
-  }
+  }
+
+  if (nodeData.styles.textTransform === "uppercase") {
+    textNode.textCase = "UPPER";
+  } else if (nodeData.styles.textTransform === "lowercase") {
+    textNode.textCase = "LOWER";
+  } else if (nodeData.styles.textTransform === "capitalize") {
+    textNode.textCase = "TITLE";
+  }
+
+  if (nodeData.styles.textDecoration?.includes("underline")) {
+    textNode.textDecoration = "UNDERLINE";
+  } else if (nodeData.styles.textDecoration?.includes("line-through")) {
+    textNode.textDecoration = "STRIKETHROUGH";
+  }
+
+  // Shared text style first; mixed-format runs become overrides on top
+  await attachTextStyle(textNode, nodeData);
+
+  if (nodeData.textRanges && nodeData.textRanges.length > 0) {
+    await applyTextRanges(textNode, nodeData, hasScreenshot);
+  }
+
+  return textNode;
+}
+
+/**
+ * Map CSS font-family / font-weight to a Figma font name
+ */
+function resolveFigmaFont(styles: any): { family: string; style: string } {
+  let fontFamily = "Inter";
+  let fontStyle = "Regular";
+
+  if (styles.fontFamily) {
+    const webFontFamily = styles.fontFamily
+      .split(",")[0]
+      .replace(/['"]/g, "")
+      .trim();
+    const mapped = fontMapping[webFontFamily] || mapToFigmaFont(webFontFamily);
+    fontFamily = mapped.family;
+    fontStyle = mapped.style;
+  }
+
+  // Determine style based on weight
+  if (styles.fontWeight) {
+    const weight = parseInt(styles.fontWeight);
+    if (weight >= 700) fontStyle = "Bold";
+    else if (weight >= 600) fontStyle = "Semi Bold";
+    else if (weight >= 500) fontStyle = "Medium";
+    else if (weight < 400) fontStyle = "Light";
+  }
+
+  return { family: fontFamily, style: fontStyle };
+}
+
+/**
+ * Style the runs of a mixed-format paragraph (bold, links, colored spans)
+ */
+async function applyTextRanges(
+  textNode: TextNode,
+  nodeData: any,
+  hasScreenshot: boolean
+): Promise<void> {
+  const length = textNode.characters.length;
+
+  for (const range of nodeData.textRanges) {
+    const start = Math.max(0, range.start);
+    const end = Math.min(length, range.end);
+    if (end <= start) continue;
+
+    const styles = { ...nodeData.styles, ...range.styles };
+    const font = resolveFigmaFont(styles);
+    textNode.setRangeFontName(
+      start,
+      end,
+      await ensureFontLoaded(font.family, font.style)
+    );
+
+    if (styles.fontSize) {
+      textNode.setRangeFontSize(start, end, parseFloat(styles.fontSize));
+    }
+
+    if (range.styles.color && !hasScreenshot) {
+      const color = parseColor(range.styles.color);
+      if (color) {
+        textNode.setRangeFills(start, end, [
+          {
+            type: "SOLID",
+            color: { r: color.r, g: color.g, b: color.b },
+            ...(color.a !== 1 ? { opacity: color.a } : {}),
+          },
+        ]);
+      }
+    }
+
+    const decoration = range.styles.textDecoration || "";
+    textNode.setRangeTextDecoration(
+      start,
+      end,
+      decoration.includes("underline")
+        ? "UNDERLINE"
+        : decoration.includes("line-through")
+        ? "STRIKETHROUGH"
+        : "NONE"
+    );
+
+    if (range.href) {
+      textNode.setRangeHyperlink(start, end, { type: "URL", value: range.href });
+    }
+  }
+}
+
+const DEFAULT_ACCENT_COLOR = { r: 0, g: 0.459, b: 1, a: 1 }; // Chrome #0075FF
+const CONTROL_BORDER_COLOR = { r: 0.46, g: 0.46, b: 0.46, a: 1 };
+
+function solidPaint(color: { r: number; g: number; b: number; a: number }): SolidPaint {
+  return {
+    type: "SOLID",
+    color: { r: color.r, g: color.g, b: color.b },
+    ...(color.a !== 1 ? { opacity: color.a } : {}),
+  };
+}
+
+/**
+ * Open polyline (check marks, chevrons) placed in the parent's coordinates
+ */
+function createStrokePath(
+  name: string,
+  points: [number, number][],
+  color: { r: number; g: number; b: number; a: number },
+  weight: number
+): VectorNode {
+  const minX = Math.min(...points.map(([x]) => x));
+  const minY = Math.min(...points.map(([, y]) => y));
+  const vector = figma.createVector();
+  vector.name = name;
+  vector.vectorPaths = [
+    {
+      windingRule: "NONE",
+      data: points
+        .map(([x, y], i) => `${i === 0 ? "M" : "L"} ${x - minX} ${y - minY}`)
+        .join(" "),
+    },
+  ];
+  vector.strokes = [solidPaint(color)];
+  vector.strokeWeight = weight;
+  vector.strokeCap = "ROUND";
+  vector.strokeJoin = "ROUND";
+  vector.fills = [];
+  vector.x = minX;
+  vector.y = minY;
+  return vector;
+}
+
+/**
+ * Draw a form control's state inside its frame as editable layers: the value
+ * or placeholder as text, and checkbox/radio/range/select chrome as vectors
+ */
+async function drawFormControl(frame: FrameNode, nodeData: any): Promise<void> {
+  const state = nodeData.formState;
+  const styles = nodeData.styles || {};
+  const accent = parseColor(state.accentColor) || DEFAULT_ACCENT_COLOR;
+  const white = { r: 1, g: 1, b: 1, a: 1 };
+  const { width, height } = frame;
+  const parts: SceneNode[] = [];
+
+  switch (state.control) {
+    case "checkbox":
+    case "radio": {
+      const size = Math.min(width, height);
+      const x = (width - size) / 2;
+      const y = (height - size) / 2;
+      const on = state.checked || state.indeterminate;
+      const box =
+        state.control === "radio" ? figma.createEllipse() : figma.createRectangle();
+      box.name = state.control === "radio" ? "Radio" : "Checkbox";
+      box.resize(size, size);
+      box.x = x;
+      box.y = y;
+      if (box.type === "RECTANGLE") box.cornerRadius = Math.max(2, size * 0.15);
+      box.fills = [solidPaint(on && state.control === "checkbox" ? accent : white)];
+      box.strokes = [solidPaint(on ? accent : CONTROL_BORDER_COLOR)];
+      box.strokeWeight = 1;
+      parts.push(box);
+
+      if (state.control === "radio" && state.checked) {
+        const dot = figma.createEllipse();
+        dot.name = "Selected";
+        dot.resize(size * 0.5, size * 0.5);
+        dot.x = x + size * 0.25;
+        dot.y = y + size * 0.25;
+        dot.fills = [solidPaint(accent)];
+        parts.push(dot);
+      } else if (state.control === "checkbox" && on) {
+        const points: [number, number][] = state.indeterminate
+          ? [[0.25, 0.5], [0.75, 0.5]]
+          : [[0.22, 0.52], [0.42, 0.72], [0.78, 0.3]];
+        parts.push(
+          createStrokePath(
+            state.indeterminate ? "Indeterminate" : "Check",
+            points.map(([px, py]) => [x + px * size, y + py * size]),
+            white,
+            Math.max(1.5, size * 0.12)
+          )
+        );
+      }
+      break;
+    }
+
+    case "range": {
+      const min = state.min ?? 0;
+      const max = state.max ?? 100;
+      const ratio =
+        max > min
+          ? Math.min(1, Math.max(0, (parseFloat(state.value) - min) / (max - min)))
+          : 0;
+      const thumbSize = Math.min(16, height);
+      const trackWidth = Math.max(1, width - thumbSize);
+      const trackY = (height - 4) / 2;
+
+      const track = figma.createRectangle();
+      track.name = "Track";
+      track.resize(trackWidth, 4);
+      track.x = thumbSize / 2;
+      track.y = trackY;
+      track.cornerRadius = 2;
+      track.fills = [solidPaint({ r: 0.85, g: 0.85, b: 0.85, a: 1 })];
+      parts.push(track);
+
+      if (ratio > 0) {
+        const filled = figma.createRectangle();
+        filled.name = "Progress";
+        filled.resize(Math.max(1, trackWidth * ratio), 4);
+        filled.x = thumbSize / 2;
+        filled.y = trackY;
+        filled.cornerRadius = 2;
+        filled.fills = [solidPaint(accent)];
+        parts.push(filled);
+      }
+
+      const thumb = figma.createEllipse();
+      thumb.name = "Thumb";
+      thumb.resize(thumbSize, thumbSize);
+      thumb.x = trackWidth * ratio;
+      thumb.y = (height - thumbSize) / 2;
+      thumb.fills = [solidPaint(accent)];
+      parts.push(thumb);
+      break;
+    }
 
-  if (nodeData.styles.textTransform === "uppercase") {
-    textNode.textCase = "UPPER";
-  } else if (nodeData.styles.textTransform === "lowercase") {
-    textNode.textCase = "LOWER";
-  } else if (nodeData.styles.textTransform === "capitalize") {
-    textNode.textCase = "TITLE";
+    default: {
+      const isSelect = state.control === "select";
+      const showPlaceholder = !isSelect && !state.value && !!state.placeholder;
+      const content = isSelect
+        ? state.selectedText || ""
+        : state.value || state.placeholder || "";
+      const textStyles = showPlaceholder
+        ? { ...styles, ...state.placeholderStyles }
+        : styles;
+      const textColor = parseColor(textStyles.color) || { r: 0, g: 0, b: 0, a: 1 };
+
+      const borderWidth = parseFloat(styles.borderWidth) || 0;
+      const insetLeft = (parseFloat(styles.paddingLeft) || 0) + borderWidth;
+      const insetRight =
+        (parseFloat(styles.paddingRight) || 0) + borderWidth + (isSelect ? 20 : 0);
+      const insetTop = (parseFloat(styles.paddingTop) || 0) + borderWidth;
+      const available = Math.max(1, width - insetLeft - insetRight);
+
+      if (content) {
+        const text = figma.createText();
+        const font = resolveFigmaFont(textStyles);
+        text.fontName = await ensureFontLoaded(font.family, font.style);
+        text.characters = content;
+        text.name = showPlaceholder ? "Placeholder" : "Value";
+        text.fontSize = parseFloat(textStyles.fontSize) || 13.33;
+        text.fills = [solidPaint(textColor)];
+        if (showPlaceholder && textStyles.opacity) {
+          text.opacity = parseFloat(textStyles.opacity);
+        }
+
+        if (state.control === "textarea") {
+          text.textAutoResize = "HEIGHT";
+          text.resize(available, text.height);
+          text.x = insetLeft;
+          text.y = insetTop;
+        } else {
+          text.textAutoResize = "WIDTH_AND_HEIGHT";
+          if (text.width > available) {
+            text.textAutoResize = "NONE";
+            text.resize(available, text.height);
+            text.textTruncation = "ENDING";
+          }
+          text.x =
+            state.control === "button"
+              ? (width - text.width) / 2
+              : insetLeft;
+          text.y = (height - text.height) / 2;
+        }
+        parts.push(text);
+      }
+
+      if (isSelect) {
+        const cx = width - borderWidth - 12;
+        const cy = height / 2;
+        parts.push(
+          createStrokePath(
+            "Chevron",
+            [[cx - 4, cy - 2], [cx, cy + 2], [cx + 4, cy - 2]],
+            textColor,
+            1.5
+          )
+        );
+      }
+
+      frame.clipsContent = true;
+      break;
+    }
   }
 
-  if (nodeData.styles.textDecoration?.includes("underline")) {
-    textNode.textDecoration = "UNDERLINE";
-  } else if (nodeData.styles.textDecoration?.includes("line-through")) {
-    textNode.textDecoration = "STRIKETHROUGH";
+  // Disabled text is already grayed in computed styles; native chrome is not
+  if (state.disabled && ["checkbox", "radio", "range"].includes(state.control)) {
+    parts.forEach((part) => {
+      if ("opacity" in part) part.opacity = 0.5;
+    });
   }
 
-  return textNode;
+  parts.forEach((part) => {
+    part.setPluginData("formControl", "true");
+    frame.appendChild(part);
+  });
 }
 
 /**
@@ -929,8 +2312,7 @@ async function createImageNode(nodeData: any): Promise<RectangleNode> {
 
   if (nodeData.imageData && nodeData.imageData.length > 0) {
     try {
-      const bytes = new Uint8Array(nodeData.imageData);
-      const image = figma.createImage(bytes);
+      const image = figma.createImage(nodeData.imageData);
       rect.fills = [
         {
           type: "IMAGE",
@@ -1044,7 +2426,9 @@ async function createFrameNode(
         }
       }
     } else if (nodeData.styles.backgroundColor) {
-      const bgToken = tokenVariables[nodeData.styles.backgroundColor];
+      const bgToken =
+        getTokenVariable(nodeData.tokenRefs?.backgroundColor, "COLOR") ||
+        tokenVariables[nodeData.styles.backgroundColor];
       if (bgToken) {
         applyVariableFill(frame, bgToken);
       } else {
@@ -1161,6 +2545,8 @@ async function createFrameNode(
     frame.clipsContent = true;
   }
 
+  bindFrameTokenRefs(frame, nodeData.tokenRefs);
+
   return frame;
 }
 
@@ -1194,6 +2580,14 @@ async function applyAdvancedEffects(node: SceneNode, styles: any) {
   if (effects.length > 0) {
     node.effects = effects;
   }
+
+  // Shadow-only stacks are shared as effect styles
+  const shadowsOnly = effects.every(
+    (effect) => effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW"
+  );
+  if (effects.length > 0 && shadowsOnly) {
+    await attachEffectStyle(node, effects);
+  }
 }
 
 /**
@@ -1201,10 +2595,12 @@ async function applyAdvancedEffects(node: SceneNode, styles: any) {
  */
 async function applyScreenshotBackground(
   frame: FrameNode,
-  screenshotBase64: string
+  screenshot: string | Uint8Array
 ) {
   try {
-    const bytes = figma.base64Decode(screenshotBase64);
+    // Base64 from /scrape, raw bytes from a streamed SCREENSHOT frame
+    const bytes =
+      typeof screenshot === "string" ? figma.base64Decode(screenshot) : screenshot;
     const image = figma.createImage(bytes);
 
     const bg = figma.createRectangle();
@@ -1256,13 +2652,265 @@ async function createPseudoElement(parent: FrameNode, pseudo: any) {
   }
 }
 
+const STATE_VARIANTS = ["hover", "focus", "active", "disabled"];
+const STATE_VARIANT_GAP = 20;
+const STATE_TRANSITION: Transition = {
+  type: "SMART_ANIMATE",
+  easing: { type: "EASE_OUT" },
+  duration: 0.15,
+};
+
 /**
  * PHASE 6: Create state variants
+ *
+ * Every element with captured states becomes a component set on the
+ * "Components" page with a `State` variant property: Default plus one
+ * variant per state, restyled from the state's style diffs or filled with
+ * its screenshot. The element is swapped for an instance of Default, and
+ * hover/press reactions change variants so it responds in prototype mode.
+ * Returns the number of component sets built.
  */
-async function createStateVariants(node: FrameNode, states: any) {
-  // Create component set with variants for states
-  // For now, just add a note
-  node.name = `${node.name} (has states: ${Object.keys(states).join(", ")})`;
+async function buildStateVariants(
+  container: FrameNode,
+  states: Record<string, any> | undefined,
+  components: any[] | undefined
+): Promise<number> {
+  if (!states || Object.keys(states).length === 0) return 0;
+
+  const built = new Map<string, SceneNode>();
+  for (const node of container.findAll(isSourceNode)) {
+    built.set(node.getPluginData("irId"), node);
+  }
+
+  // Repeated occurrences are swapped for instances of the canonical one
+  // afterwards, so elements inside them would only leave unused sets behind
+  const replaced = new Set<string>();
+  for (const group of components || []) {
+    for (const id of group.instances) {
+      if (id !== group.canonical) replaced.add(id);
+    }
+  }
+  const insideReplaced = (node: SceneNode) => {
+    for (let parent = node.parent; parent && parent !== container; parent = parent.parent) {
+      if (replaced.has((parent as SceneNode).getPluginData("irId"))) return true;
+    }
+    return false;
+  };
+
+  const page = getComponentsPage();
+  let sets = 0;
+
+  for (const [id, nodeStates] of Object.entries(states)) {
+    const original = built.get(id);
+    if (!original || original.removed || original.type !== "FRAME") continue;
+    if (insideReplaced(original)) continue;
+
+    try {
+      if (await createStateComponentSet(page, original, nodeStates)) sets++;
+    } catch (error) {
+      console.warn(`Could not build state variants for ${original.name}:`, error);
+    }
+  }
+
+  return sets;
+}
+
+async function createStateComponentSet(
+  page: PageNode,
+  original: FrameNode,
+  states: any
+): Promise<boolean> {
+  const variants: Record<string, ComponentNode> = {};
+  const addVariant = (state: string) => {
+    const clone = original.clone();
+    page.appendChild(clone);
+    const variant = figma.createComponentFromNode(clone);
+    variant.name = `State=${state[0].toUpperCase()}${state.slice(1)}`;
+    variants[state] = variant;
+    return variant;
+  };
+
+  addVariant("default");
+  for (const state of STATE_VARIANTS) {
+    const styles = states[state];
+    const screenshot = states.screenshots?.[state];
+    if (styles) {
+      await applyStateStyles(addVariant(state), styles);
+    } else if (screenshot) {
+      applyStateScreenshot(addVariant(state), screenshot);
+    }
+  }
+
+  const ordered = Object.values(variants);
+  if (ordered.length < 2) {
+    ordered.forEach((variant) => variant.remove());
+    return false;
+  }
+
+  let x = 0;
+  for (const variant of ordered) {
+    variant.x = x;
+    variant.y = 0;
+    x += variant.width + STATE_VARIANT_GAP;
+  }
+  const set = figma.combineAsVariants(ordered, page);
+  set.name = original.name;
+  placeOnComponentsPage(page, set);
+  clearSourceTags(set);
+
+  await wireStateReactions(variants);
+  replaceWithInstance(variants.default, original);
+  return true;
+}
+
+/** Hover and press switch variants; they revert when the pointer leaves */
+async function wireStateReactions(variants: Record<string, ComponentNode>): Promise<void> {
+  const changeTo = (type: "ON_HOVER" | "ON_PRESS", target?: ComponentNode): Reaction[] =>
+    target
+      ? [
+          {
+            trigger: { type },
+            actions: [
+              {
+                type: "NODE",
+                destinationId: target.id,
+                navigation: "CHANGE_TO",
+                transition: STATE_TRANSITION,
+              },
+            ],
+          },
+        ]
+      : [];
+
+  await variants.default.setReactionsAsync([
+    ...changeTo("ON_HOVER", variants.hover),
+    ...changeTo("ON_PRESS", variants.active),
+  ]);
+  if (variants.hover && variants.active) {
+    await variants.hover.setReactionsAsync(changeTo("ON_PRESS", variants.active));
+  }
+}
+
+/** Restyle the variant's layers from a state's `nodeId → styles` diffs */
+async function applyStateStyles(
+  variant: ComponentNode,
+  diffs: Record<string, any>
+): Promise<void> {
+  for (const layer of [variant, ...variant.findAll()]) {
+    const styles = diffs[layer.getPluginData("irId")];
+    if (!styles) continue;
+
+    if (layer.type === "TEXT") {
+      await applyStateTextStyles(layer, styles);
+    } else if (layer.type === "FRAME" || layer.type === "COMPONENT") {
+      applyStateFrameStyles(layer, styles);
+    }
+
+    if (styles.opacity !== undefined && "opacity" in layer) {
+      const opacity = parseFloat(styles.opacity);
+      if (!isNaN(opacity)) layer.opacity = opacity;
+    }
+
+    if ((styles.boxShadow !== undefined || styles.filter !== undefined) && "effects" in layer) {
+      const isShadow = (effect: Effect) =>
+        effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW";
+      const shadows =
+        styles.boxShadow === undefined
+          ? layer.effects.filter(isShadow)
+          : styles.boxShadow === "none"
+          ? []
+          : parseBoxShadow(styles.boxShadow);
+      const blurMatch = styles.filter?.match(/blur\(([\d.]+)px\)/);
+      const blurs: Effect[] =
+        styles.filter === undefined
+          ? layer.effects.filter((effect) => !isShadow(effect))
+          : blurMatch
+          ? [
+              {
+                type: "LAYER_BLUR",
+                blurType: "NORMAL",
+                radius: parseFloat(blurMatch[1]),
+                visible: true,
+              },
+            ]
+          : [];
+      layer.effects = [...shadows, ...blurs];
+    }
+  }
+}
+
+async function applyStateTextStyles(layer: TextNode, styles: any): Promise<void> {
+  if (styles.color) {
+    applyStateFill(layer, styles.color);
+  }
+
+  if (styles.fontWeight && layer.fontName !== figma.mixed) {
+    const { style } = resolveFigmaFont({ fontWeight: styles.fontWeight });
+    layer.fontName = await ensureFontLoaded(layer.fontName.family, style);
+  }
+
+  if (styles.textDecoration && layer.fontName !== figma.mixed) {
+    await ensureFontLoaded(layer.fontName.family, layer.fontName.style);
+    layer.textDecoration = styles.textDecoration.includes("underline")
+      ? "UNDERLINE"
+      : styles.textDecoration.includes("line-through")
+      ? "STRIKETHROUGH"
+      : "NONE";
+  }
+}
+
+function applyStateFrameStyles(layer: FrameNode | ComponentNode, styles: any): void {
+  if (styles.backgroundImage?.includes("gradient")) {
+    const gradient = parseGradient(styles.backgroundImage);
+    if (gradient) layer.fills = [gradient];
+  } else if (styles.backgroundColor) {
+    applyStateFill(layer, styles.backgroundColor);
+  }
+
+  if (styles.borderColor || styles.borderWidth || styles.borderStyle) {
+    if (styles.borderStyle === "none" || parseFloat(styles.borderWidth) === 0) {
+      layer.strokes = [];
+    } else {
+      const color = styles.borderColor && parseColor(styles.borderColor);
+      if (color) layer.strokes = [solidPaint(color)];
+      const width = parseFloat(styles.borderWidth);
+      if (!isNaN(width)) layer.strokeWeight = width;
+    }
+  }
+
+  if (styles.borderRadius) {
+    const values = styles.borderRadius.match(/[\d.]+/g);
+    if (values) {
+      const radii = values.map((value: string) => parseFloat(value));
+      layer.topLeftRadius = radii[0] || 0;
+      layer.topRightRadius = radii[1] || radii[0] || 0;
+      layer.bottomRightRadius = radii[2] || radii[0] || 0;
+      layer.bottomLeftRadius = radii[3] || radii[1] || radii[0] || 0;
+    }
+  }
+}
+
+/** Token variable when the state color is one, a plain fill otherwise */
+function applyStateFill(layer: GeometryMixin, value: string): void {
+  const token = tokenVariables[value];
+  if (token) {
+    applyVariableFill(layer, token);
+    return;
+  }
+  const color = parseColor(value);
+  if (color) {
+    layer.fills = color.a === 0 ? [] : [solidPaint(color)];
+  }
+}
+
+/** A screenshot already shows the whole element, so it replaces the layers */
+function applyStateScreenshot(variant: ComponentNode, screenshot: string): void {
+  const image = figma.createImage(figma.base64Decode(screenshot));
+  for (const child of [...variant.children]) {
+    child.remove();
+  }
+  variant.fills = [{ type: "IMAGE", imageHash: image.hash, scaleMode: "FILL" }];
+  variant.strokes = [];
 }
 
 /**
@@ -1447,20 +3095,27 @@ function parseColor(
 /**
  * Ensure font is loaded
  */
-async function ensureFontLoaded(family: string, style: string) {
+/**
+ * Load a font, falling back to Regular and then Inter. Returns the font that
+ * was actually loaded.
+ */
+async function ensureFontLoaded(family: string, style: string): Promise<FontName> {
   const key = `${family}__${style}`;
-  if (loadedFonts.has(key)) return;
+  if (loadedFonts.has(key)) return { family, style };
 
   try {
     await figma.loadFontAsync({ family, style });
     loadedFonts.add(key);
+    return { family, style };
   } catch (e) {
     try {
       await figma.loadFontAsync({ family, style: "Regular" });
       loadedFonts.add(`${family}__Regular`);
+      return { family, style: "Regular" };
     } catch (e2) {
       await figma.loadFontAsync({ family: "Inter", style: "Regular" });
       loadedFonts.add("Inter__Regular");
+      return { family: "Inter", style: "Regular" };
     }
   }
 }
@@ -1480,6 +3135,39 @@ async function createFigmaVariables(tokens: any) {
       radii: figma.variables.createVariableCollection("Radii"),
     };
 
+    // Light/dark captures: one variable, two modes
+    const schemes = tokens.colorSchemes;
+    const lightModeId = collections.colors.modes[0].modeId;
+    let darkModeId: string | null = null;
+    if (schemes) {
+      collections.colors.renameMode(lightModeId, "Light");
+      try {
+        darkModeId = collections.colors.addMode("Dark");
+      } catch (error) {
+        console.warn("Could not add a Dark mode (plan limit?):", error);
+      }
+    }
+    const darkByLight: Record<string, string> = schemes
+      ? getDarkColorMap(schemes)
+      : {};
+
+    const setColorValues = (
+      variable: Variable,
+      lightValue: string,
+      darkValue?: string
+    ): boolean => {
+      const light = parseColor(lightValue);
+      if (!light) return false;
+      variable.setValueForMode(lightModeId, light);
+      if (darkModeId) {
+        variable.setValueForMode(
+          darkModeId,
+          (darkValue && parseColor(darkValue)) || light
+        );
+      }
+      return true;
+    };
+
     // Process explicit tokens (CSS variables)
     for (const [cssVar, value] of Object.entries(tokens.explicit || {})) {
       if (typeof value !== "string") continue;
@@ -1492,18 +3180,14 @@ async function createFigmaVariables(tokens: any) {
           collections.colors,
           "COLOR"
         );
-        const color = parseColor(value);
-        if (color) {
-          variable.setValueForMode(collections.colors.modes[0].modeId, {
-            r: color.r,
-            g: color.g,
-            b: color.b,
-            a: color.a,
-          });
+        if (setColorValues(variable, value, schemes?.variables[cssVar]?.dark)) {
           variables[cssVar] = variable;
         }
-      } else if (value.includes("px")) {
-        const numValue = parseFloat(value);
+      } else if (value.includes("px") || /^\s*[\d.]+rem\s*$/.test(value)) {
+        // rem tokens (font sizes, spacing scales) at the default 16px root
+        const numValue = value.includes("rem")
+          ? parseFloat(value) * 16
+          : parseFloat(value);
         if (!isNaN(numValue)) {
           const variable = figma.variables.createVariable(
             cleanName,
@@ -1529,21 +3213,496 @@ async function createFigmaVariables(tokens: any) {
           collections.colors,
           "COLOR"
         );
-        const color = parseColor(value);
-        if (color) {
-          variable.setValueForMode(collections.colors.modes[0].modeId, {
-            r: color.r,
-            g: color.g,
-            b: color.b,
-            a: color.a,
-          });
+        if (setColorValues(variable, value, darkByLight[value])) {
           variables[value] = variable;
         }
       }
     }
+
+    // Colors that switch with the scheme but are not tokens yet still need a
+    // variable, otherwise those layers would stay light in Dark mode
+    let schemeIndex = 0;
+    for (const [lightValue, darkValue] of Object.entries(darkByLight)) {
+      if (variables[lightValue]) continue;
+      const variable = figma.variables.createVariable(
+        `scheme/color-${++schemeIndex}`,
+        collections.colors,
+        "COLOR"
+      );
+      if (setColorValues(variable, lightValue, darkValue)) {
+        variables[lightValue] = variable;
+      } else {
+        variable.remove();
+      }
+    }
+
+    // @media breakpoints from the site's CSS; reference values only, no
+    // layer binds to them
+    if (Array.isArray(tokens.breakpoints) && tokens.breakpoints.length > 0) {
+      const breakpoints = figma.variables.createVariableCollection("Breakpoints");
+      for (const breakpoint of tokens.breakpoints) {
+        if (typeof breakpoint?.width !== "number") continue;
+        const variable = figma.variables.createVariable(
+          `breakpoint/${breakpoint.width}`,
+          breakpoints,
+          "FLOAT"
+        );
+        variable.setValueForMode(breakpoints.modes[0].modeId, breakpoint.width);
+        if (breakpoint.queries?.length) {
+          variable.description = breakpoint.queries.join("\n");
+        }
+      }
+    }
   } catch (error) {
     console.error("Variable creation failed:", error);
   }
 
   return variables;
 }
+
+/**
+ * Light color value → the dark value it most often turns into
+ */
+function getDarkColorMap(schemes: any): Record<string, string> {
+  const counts: Record<string, Record<string, number>> = {};
+
+  for (const { light, dark } of Object.values<any>(schemes.nodes || {})) {
+    for (const key of Object.keys(light)) {
+      if (!light[key] || !dark[key]) continue;
+      counts[light[key]] = counts[light[key]] || {};
+      counts[light[key]][dark[key]] = (counts[light[key]][dark[key]] || 0) + 1;
+    }
+  }
+
+  const map: Record<string, string> = {};
+  for (const [lightValue, darkCounts] of Object.entries(counts)) {
+    map[lightValue] = Object.entries(darkCounts).sort((a, b) => b[1] - a[1])[0][0];
+  }
+  return map;
+}
+
+/**
+ * Text and effect styles
+ *
+ * Every distinct typography combination (font, size, line height, letter
+ * spacing, case, decoration) and every distinct shadow stack in an import
+ * becomes one local style that the layers are attached to. Styles from
+ * earlier imports are reused when the combination matches; new ones get
+ * their final names (Heading/1, Body/Regular, Shadow/2, ...) once the whole
+ * import is known.
+ */
+async function beginStyleCollection(): Promise<void> {
+  importTextStyles.clear();
+  importEffectStyles.clear();
+
+  try {
+    for (const style of await figma.getLocalTextStylesAsync()) {
+      const key = style.getPluginData("styleKey");
+      if (key) importTextStyles.set(key, { style, created: false, uses: 0, headingUses: 0 });
+    }
+    for (const style of await figma.getLocalEffectStylesAsync()) {
+      const key = style.getPluginData("styleKey");
+      if (key) importEffectStyles.set(key, { style, created: false, uses: 0, headingUses: 0 });
+    }
+  } catch (error) {
+    console.warn("Could not read local styles:", error);
+  }
+}
+
+async function attachTextStyle(textNode: TextNode, nodeData: any): Promise<void> {
+  try {
+    const fontName = textNode.fontName as FontName;
+    const fontSize = textNode.fontSize as number;
+    const lineHeight = textNode.lineHeight as LineHeight;
+    const letterSpacing = textNode.letterSpacing as LetterSpacing;
+    const fontSizeVariableId = textNode.boundVariables?.fontSize?.[0]?.id;
+
+    const key = JSON.stringify([
+      fontName.family,
+      fontName.style,
+      roundTo(fontSize, 0.5),
+      lineHeight.unit === "AUTO" ? "auto" : roundTo(lineHeight.value, 0.5),
+      roundTo(letterSpacing.value, 0.01),
+      textNode.textCase,
+      textNode.textDecoration,
+      fontSizeVariableId || null,
+    ]);
+
+    let entry = importTextStyles.get(key);
+    if (!entry) {
+      const style = figma.createTextStyle();
+      style.name = `Text/${roundTo(fontSize, 0.5)} ${fontName.style}`;
+      style.fontName = fontName;
+      style.fontSize = fontSize;
+      style.lineHeight = lineHeight;
+      style.letterSpacing = letterSpacing;
+      style.textCase = textNode.textCase as TextCase;
+      style.textDecoration = textNode.textDecoration as TextDecoration;
+      if (fontSizeVariableId) {
+        const variable = await figma.variables.getVariableByIdAsync(fontSizeVariableId);
+        if (variable) style.setBoundVariable("fontSize", variable);
+      }
+      style.setPluginData("styleKey", key);
+      entry = { style, created: true, uses: 0, headingUses: 0 };
+      importTextStyles.set(key, entry);
+    }
+
+    entry.uses++;
+    if (/^h[1-6]$/.test(nodeData.tag || "")) entry.headingUses++;
+    await textNode.setTextStyleIdAsync(entry.style.id);
+  } catch (error) {
+    console.warn("Could not attach text style:", error);
+  }
+}
+
+async function attachEffectStyle(node: SceneNode, effects: Effect[]): Promise<void> {
+  if (!("setEffectStyleIdAsync" in node)) return;
+
+  try {
+    const key = JSON.stringify(
+      effects.map((effect) => {
+        const shadow = effect as DropShadowEffect | InnerShadowEffect;
+        return [
+          shadow.type,
+          roundTo(shadow.offset.x, 0.5),
+          roundTo(shadow.offset.y, 0.5),
+          roundTo(shadow.radius, 0.5),
+          roundTo(shadow.spread || 0, 0.5),
+          [shadow.color.r, shadow.color.g, shadow.color.b, shadow.color.a].map((channel) =>
+            roundTo(channel, 0.01)
+          ),
+        ];
+      })
+    );
+
+    let entry = importEffectStyles.get(key);
+    if (!entry) {
+      const style = figma.createEffectStyle();
+      style.name = "Shadow/New";
+      style.effects = effects;
+      style.setPluginData("styleKey", key);
+      entry = { style, created: true, uses: 0, headingUses: 0 };
+      importEffectStyles.set(key, entry);
+    }
+
+    entry.uses++;
+    await node.setEffectStyleIdAsync(entry.style.id);
+  } catch (error) {
+    console.warn("Could not attach effect style:", error);
+  }
+}
+
+/**
+ * Name the styles created by this import. The most used text size is the
+ * body size; larger styles that are bold, clearly bigger or used by
+ * headings become Heading/1..n (largest first). Returns how many text and
+ * effect styles were created.
+ */
+async function finishStyleCollection(): Promise<{ text: number; effects: number }> {
+  try {
+    const textEntries = Array.from(importTextStyles.values());
+    const takenText = new Set(
+      (await figma.getLocalTextStylesAsync()).map((style) => style.name)
+    );
+    const newText = textEntries.filter((entry) => entry.created);
+    newText.forEach((entry) => takenText.delete(entry.style.name));
+
+    const used = textEntries.filter((entry) => entry.uses > 0);
+    const bodySize = used.length
+      ? used.reduce((best, entry) => (entry.uses > best.uses ? entry : best)).style.fontSize
+      : 16;
+    const isHeading = (entry: ImportedStyle<TextStyle>) =>
+      entry.style.fontSize > bodySize &&
+      (entry.headingUses > 0 ||
+        fontStyleWeight(entry.style.fontName.style) >= 600 ||
+        entry.style.fontSize >= bodySize * 1.25);
+
+    const headings = newText
+      .filter(isHeading)
+      .sort(
+        (a, b) =>
+          b.style.fontSize - a.style.fontSize ||
+          fontStyleWeight(b.style.fontName.style) - fontStyleWeight(a.style.fontName.style)
+      );
+    headings.forEach((entry, index) => {
+      entry.style.name = uniqueStyleName(`Heading/${index + 1}`, takenText);
+    });
+
+    for (const entry of newText) {
+      if (headings.includes(entry)) continue;
+      const { fontSize, fontName } = entry.style;
+      const group = fontSize === bodySize ? "Body" : fontSize > bodySize ? "Body Large" : "Small";
+      entry.style.name = uniqueStyleName(`${group}/${fontName.style}`, takenText);
+    }
+
+    const takenEffects = new Set(
+      (await figma.getLocalEffectStylesAsync()).map((style) => style.name)
+    );
+    const newEffects = Array.from(importEffectStyles.values()).filter(
+      (entry) => entry.created
+    );
+    newEffects.forEach((entry) => takenEffects.delete(entry.style.name));
+    newEffects
+      .sort((a, b) => shadowElevation(a.style.effects) - shadowElevation(b.style.effects))
+      .forEach((entry, index) => {
+        entry.style.name = uniqueStyleName(`Shadow/${index + 1}`, takenEffects);
+      });
+
+    return { text: newText.length, effects: newEffects.length };
+  } catch (error) {
+    console.warn("Could not name imported styles:", error);
+    return { text: 0, effects: 0 };
+  }
+}
+
+function uniqueStyleName(name: string, taken: Set<string>): string {
+  let unique = name;
+  for (let suffix = 2; taken.has(unique); suffix++) {
+    unique = `${name} ${suffix}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+/** Numeric weight of a Figma font style name ("Semi Bold" → 600) */
+function fontStyleWeight(style: string): number {
+  const normalized = style.toLowerCase().replace(/[\s-]/g, "");
+  if (/black|heavy/.test(normalized)) return 900;
+  if (/extrabold|ultrabold/.test(normalized)) return 800;
+  if (/semibold|demibold/.test(normalized)) return 600;
+  if (/bold/.test(normalized)) return 700;
+  if (/medium/.test(normalized)) return 500;
+  if (/extralight|ultralight/.test(normalized)) return 200;
+  if (/thin|hairline/.test(normalized)) return 100;
+  if (/light/.test(normalized)) return 300;
+  return 400;
+}
+
+/** How far a shadow stack reaches below the layer */
+function shadowElevation(effects: ReadonlyArray<Effect>): number {
+  return Math.max(
+    0,
+    ...effects.map((effect) =>
+      effect.type === "DROP_SHADOW" ? effect.offset.y + effect.radius : 0
+    )
+  );
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Components
+ *
+ * Repeated subtrees found by the scraper (`components`) become one main
+ * component on the "Components" page, built from the canonical occurrence.
+ * Every occurrence, the canonical one included, is then swapped for an
+ * instance: text that differs becomes a component text property and
+ * differing images become fill overrides. Occurrences whose layers do not
+ * line up with the component are left as plain frames. Returns the number
+ * of occurrences swapped for instances.
+ */
+async function componentizeImport(
+  container: FrameNode,
+  components: any[] | undefined
+): Promise<number> {
+  if (!components || components.length === 0) return 0;
+
+  const built = new Map<string, SceneNode>();
+  for (const node of container.findAll(isSourceNode)) {
+    built.set(node.getPluginData("irId"), node);
+  }
+
+  const page = getComponentsPage();
+  let instances = 0;
+
+  for (const group of components) {
+    try {
+      const component = findComponent(page, group.id) || createMainComponent(page, group, built);
+      if (!component) continue;
+
+      for (const id of group.instances) {
+        const original = built.get(id);
+        if (!original || original.removed || !sameLayerShape(component, original)) continue;
+        replaceWithInstance(component, original);
+        instances++;
+      }
+    } catch (error) {
+      console.warn(`Could not build component ${group.name}:`, error);
+    }
+  }
+
+  return instances;
+}
+
+function getComponentsPage(): PageNode {
+  const existing = figma.root.children.find((page) => page.name === "Components");
+  if (existing) return existing;
+
+  const page = figma.createPage();
+  page.name = "Components";
+  return page;
+}
+
+/** Main component from an earlier import with the same structure */
+function findComponent(page: PageNode, componentId: string): ComponentNode | null {
+  const match = page.children.find(
+    (node) => node.type === "COMPONENT" && node.getPluginData("componentId") === componentId
+  );
+  return (match as ComponentNode) || null;
+}
+
+function createMainComponent(
+  page: PageNode,
+  group: any,
+  built: Map<string, SceneNode>
+): ComponentNode | null {
+  const canonical = built.get(group.canonical);
+  if (!canonical || canonical.type !== "FRAME") return null;
+
+  const clone = canonical.clone();
+  placeOnComponentsPage(page, clone);
+
+  const component = figma.createComponentFromNode(clone);
+  component.name = group.name;
+  component.setPluginData("componentId", group.id);
+  clearSourceTags(component);
+  return component;
+}
+
+/** Components stack below whatever the page already holds */
+function placeOnComponentsPage(page: PageNode, node: SceneNode): void {
+  const bottom = page.children.reduce(
+    (max, child) => (child === node ? max : Math.max(max, child.y + child.height)),
+    0
+  );
+  if (node.parent !== page) page.appendChild(node);
+  node.x = 0;
+  node.y = page.children.length > 1 ? bottom + BREAKPOINT_FRAME_GAP : 0;
+}
+
+/** Layers of a main component are not tied to one capture */
+function clearSourceTags(root: ComponentNode | ComponentSetNode): void {
+  for (const node of [root, ...root.findAll()]) {
+    node.setPluginData("irId", "");
+    node.setPluginData("irState", "");
+    node.setPluginData("irSelector", "");
+  }
+}
+
+/** Source tags of a layer tree, in child order */
+interface SourceTags {
+  values: string[];
+  children: SourceTags[];
+}
+
+const SOURCE_TAG_KEYS = ["irId", "irSelector", "irState"];
+
+function readSourceTags(node: SceneNode): SourceTags {
+  return {
+    values: SOURCE_TAG_KEYS.map((key) => node.getPluginData(key)),
+    children: "children" in node ? node.children.map(readSourceTags) : [],
+  };
+}
+
+/** Tag a layer tree with the same shape as the one the tags were read from */
+function writeSourceTags(node: SceneNode, tags: SourceTags): void {
+  SOURCE_TAG_KEYS.forEach((key, index) => node.setPluginData(key, tags.values[index]));
+  if ("children" in node) {
+    node.children.forEach((child, index) => {
+      if (tags.children[index]) writeSourceTags(child, tags.children[index]);
+    });
+  }
+}
+
+/** Same node types and child counts all the way down */
+function sameLayerShape(a: SceneNode, b: SceneNode): boolean {
+  const kind = (node: SceneNode) =>
+    node.type === "COMPONENT" || node.type === "INSTANCE" ? "FRAME" : node.type;
+  if (kind(a) !== kind(b)) return false;
+
+  const aChildren = "children" in a ? a.children : [];
+  const bChildren = "children" in b ? b.children : [];
+  return (
+    aChildren.length === bChildren.length &&
+    aChildren.every((child, index) => sameLayerShape(child, bChildren[index]))
+  );
+}
+
+function replaceWithInstance(component: ComponentNode, original: SceneNode): InstanceNode {
+  const parent = original.parent as BaseNode & ChildrenMixin;
+  const instance = component.createInstance();
+  parent.insertChild(parent.children.indexOf(original), instance);
+
+  instance.name = original.name;
+  instance.x = original.x;
+  instance.y = original.y;
+  if (instance.width !== original.width || instance.height !== original.height) {
+    instance.resize(Math.max(1, original.width), Math.max(1, original.height));
+  }
+  if ("layoutPositioning" in original && original.layoutPositioning === "ABSOLUTE") {
+    instance.layoutPositioning = "ABSOLUTE";
+  }
+
+  // The instance and its sublayers stand in for the occurrence's layers
+  // during "Refresh from URL"
+  writeSourceTags(instance, readSourceTags(original));
+
+  const properties: Record<string, string> = {};
+  applyInstanceOverrides(component, component, instance, original, properties);
+  if (Object.keys(properties).length > 0) {
+    instance.setProperties(properties);
+  }
+
+  original.remove();
+  return instance;
+}
+
+/**
+ * Walk the main component, the new instance and the original occurrence in
+ * step. Text differences are routed through a text property on the main
+ * component; image fills are overridden on the instance layer.
+ */
+function applyInstanceOverrides(
+  component: ComponentNode,
+  main: SceneNode,
+  layer: SceneNode,
+  original: SceneNode,
+  properties: Record<string, string>
+): void {
+  if (main.type === "TEXT" && original.type === "TEXT") {
+    if (main.characters !== original.characters) {
+      let property = main.componentPropertyReferences?.characters;
+      if (!property) {
+        property = component.addComponentProperty(main.name, "TEXT", main.characters);
+        main.componentPropertyReferences = { characters: property };
+      }
+      properties[property] = original.characters;
+    }
+    return;
+  }
+
+  if (hasImageFill(original) && "fills" in original && "fills" in layer) {
+    if (JSON.stringify(original.fills) !== JSON.stringify((main as GeometryMixin).fills)) {
+      layer.fills = original.fills as Paint[];
+    }
+  }
+
+  if ("children" in main && "children" in layer && "children" in original) {
+    main.children.forEach((child, index) => {
+      applyInstanceOverrides(
+        component,
+        child,
+        layer.children[index],
+        original.children[index],
+        properties
+      );
+    });
+  }
+}
+
+function hasImageFill(node: SceneNode): boolean {
+  if (!("fills" in node) || node.fills === figma.mixed) return false;
+  return node.fills.some((paint) => paint.type === "IMAGE");
+}
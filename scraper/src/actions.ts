@@ -0,0 +1,180 @@
+import type { Page } from 'playwright';
+import type { CaptureAction, CaptureActionType } from '../../ir.js';
+
+export const DEFAULT_ACTION_TIMEOUT = 5000;
+
+const ACTION_TYPES: CaptureActionType[] = [
+  'click',
+  'type',
+  'hover',
+  'press',
+  'waitForSelector',
+  'waitForTimeout',
+  'scrollTo',
+  'evaluate'
+];
+
+/**
+ * Validate an `actions` array from a request. Throws with the offending step
+ * index so the caller can reject the request before launching a browser.
+ */
+export function validateActions(actions: unknown): CaptureAction[] | undefined {
+  if (actions === undefined || actions === null) return undefined;
+  if (!Array.isArray(actions)) {
+    throw new Error('actions must be an array');
+  }
+
+  actions.forEach((action: any, index) => {
+    const label = `actions[${index}]`;
+    if (!action || typeof action !== 'object' || !ACTION_TYPES.includes(action.type)) {
+      throw new Error(`${label}.type must be one of ${ACTION_TYPES.join(', ')}`);
+    }
+
+    const requireString = (field: string) => {
+      if (typeof action[field] !== 'string' || action[field].length === 0) {
+        throw new Error(`${label}.${field} is required for ${action.type}`);
+      }
+    };
+
+    switch (action.type) {
+      case 'click':
+      case 'hover':
+      case 'waitForSelector':
+        requireString('selector');
+        break;
+      case 'type':
+        requireString('selector');
+        if (typeof action.text !== 'string') {
+          throw new Error(`${label}.text is required for type`);
+        }
+        break;
+      case 'press':
+        requireString('key');
+        break;
+      case 'waitForTimeout':
+        if (!Number.isFinite(action.ms) || action.ms < 0) {
+          throw new Error(`${label}.ms must be a non-negative number`);
+        }
+        break;
+      case 'scrollTo':
+        if (action.selector === undefined && action.x === undefined && action.y === undefined) {
+          throw new Error(`${label} needs a selector or x/y coordinates`);
+        }
+        break;
+      case 'evaluate':
+        requireString('script');
+        break;
+    }
+
+    if (action.timeout !== undefined && (!Number.isFinite(action.timeout) || action.timeout < 0)) {
+      throw new Error(`${label}.timeout must be a non-negative number`);
+    }
+  });
+
+  return actions.length > 0 ? (actions as CaptureAction[]) : undefined;
+}
+
+/**
+ * Short human-readable description used in logs and LoadInfo errors
+ */
+export function describeAction(action: CaptureAction): string {
+  switch (action.type) {
+    case 'waitForTimeout':
+      return `waitForTimeout ${action.ms}ms`;
+    case 'press':
+      return action.selector ? `press ${action.key} on ${action.selector}` : `press ${action.key}`;
+    case 'scrollTo':
+      return action.selector
+        ? `scrollTo ${action.selector}`
+        : `scrollTo ${action.x ?? 0},${action.y ?? 0}`;
+    case 'evaluate':
+      return 'evaluate';
+    default:
+      return `${action.type} ${action.selector}`;
+  }
+}
+
+/**
+ * Run the steps in order. Failures do not stop the recipe; each one is
+ * returned as a LoadInfo error entry with phase "actions".
+ */
+export async function runActions(
+  page: Page,
+  actions: CaptureAction[]
+): Promise<{ phase: string; message: string }[]> {
+  const errors: { phase: string; message: string }[] = [];
+
+  for (let index = 0; index < actions.length; index++) {
+    const action = actions[index];
+    const description = describeAction(action);
+
+    try {
+      await runAction(page, action);
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      console.warn(`Action ${index + 1} failed (${description}): ${message}`);
+      errors.push({ phase: 'actions', message: `Step ${index + 1} (${description}): ${message}` });
+    }
+  }
+
+  // Clicks and typing commonly trigger fetches or transitions; give them a moment to settle
+  await page.waitForLoadState('networkidle', { timeout: DEFAULT_ACTION_TIMEOUT }).catch(() => {});
+
+  return errors;
+}
+
+async function runAction(page: Page, action: CaptureAction): Promise<void> {
+  const timeout = 'timeout' in action && action.timeout !== undefined
+    ? action.timeout
+    : DEFAULT_ACTION_TIMEOUT;
+
+  switch (action.type) {
+    case 'click':
+      await page.locator(action.selector).first().click({ timeout });
+      return;
+    case 'type':
+      await page.locator(action.selector).first().fill('', { timeout });
+      await page.locator(action.selector).first().pressSequentially(action.text, {
+        delay: action.delay,
+        timeout
+      });
+      return;
+    case 'hover':
+      await page.locator(action.selector).first().hover({ timeout });
+      return;
+    case 'press':
+      if (action.selector) {
+        await page.locator(action.selector).first().press(action.key, { timeout });
+      } else {
+        await page.keyboard.press(action.key);
+      }
+      return;
+    case 'waitForSelector':
+      await page.waitForSelector(action.selector, { state: action.state || 'visible', timeout });
+      return;
+    case 'waitForTimeout':
+      await page.waitForTimeout(action.ms);
+      return;
+    case 'scrollTo':
+      if (action.selector) {
+        await page.locator(action.selector).first().scrollIntoViewIfNeeded({ timeout });
+      } else {
+        await page.evaluate(
+          ({ x, y }) => window.scrollTo(x, y),
+          { x: action.x ?? 0, y: action.y ?? 0 }
+        );
+      }
+      return;
+    case 'evaluate':
+      await withTimeout(page.evaluate(action.script), timeout, 'evaluate');
+      return;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
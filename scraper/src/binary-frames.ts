@@ -0,0 +1,30 @@
+import type { BinaryFrameHeader, BinaryFrameType } from '../../ir.js';
+
+/** Layout documented on {@link BinaryFrameHeader}; ui.html decodes it */
+export const BINARY_FRAME_VERSION = 2;
+export const BINARY_HEADER_SIZE = 20;
+
+const FRAME_TYPE_CODES: Record<BinaryFrameType, number> = {
+  IMAGE_CHUNK: 1,
+  IMAGE_DATA: 2,
+  SCREENSHOT: 3
+};
+
+export function encodeBinaryFrame(header: BinaryFrameHeader, payload: Uint8Array): Buffer {
+  const nodeId = Buffer.from(header.nodeId, 'utf8');
+  if (nodeId.length > 0xffff) {
+    throw new Error(`Node id too long for a binary frame: ${header.nodeId.slice(0, 40)}...`);
+  }
+
+  const frame = Buffer.allocUnsafe(BINARY_HEADER_SIZE + nodeId.length + payload.length);
+  frame.writeUInt8(FRAME_TYPE_CODES[header.type], 0);
+  frame.writeUInt8(BINARY_FRAME_VERSION, 1);
+  frame.writeUInt16BE(nodeId.length, 2);
+  frame.writeUInt32BE(header.sequenceNumber, 4);
+  frame.writeUInt32BE(header.chunkIndex, 8);
+  frame.writeUInt32BE(header.totalChunks, 12);
+  frame.writeUInt32BE(header.breakpoint, 16);
+  nodeId.copy(frame, BINARY_HEADER_SIZE);
+  frame.set(payload, BINARY_HEADER_SIZE + nodeId.length);
+  return frame;
+}
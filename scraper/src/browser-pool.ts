@@ -0,0 +1,199 @@
+import { chromium } from 'playwright';
+import type { Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import { CONFIG } from './config.js';
+
+export interface BrowserPoolOptions {
+  /** Browsers kept running between jobs */
+  size: number;
+  /** Jobs a browser serves before it is closed and replaced */
+  maxJobsPerBrowser: number;
+  launchArgs?: string[];
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  launching: number;
+  activeContexts: number;
+  jobsServed: number;
+  /** Browsers closed after reaching `maxJobsPerBrowser` */
+  recycled: number;
+}
+
+interface PooledBrowser {
+  browser: Browser;
+  jobs: number;
+  active: number;
+  retiring: boolean;
+}
+
+/**
+ * Keeps Chromium instances warm between captures. Every job gets its own
+ * BrowserContext, so cookies, storage and auth never leak between requests.
+ * Browsers are replaced after `maxJobsPerBrowser` jobs (once idle) or as
+ * soon as they disconnect.
+ */
+export class BrowserPool {
+  private readonly browsers: PooledBrowser[] = [];
+  private readonly launching = new Set<Promise<void>>();
+  private readonly leases = new Map<BrowserContext, PooledBrowser>();
+  private jobsServed = 0;
+  private recycled = 0;
+  private closed = false;
+
+  constructor(private readonly options: BrowserPoolOptions) {}
+
+  /**
+   * Launch browsers until `size` of them are available for new jobs
+   */
+  async warm(): Promise<void> {
+    while (this.available().length + this.launching.size < this.options.size) {
+      this.launch();
+    }
+    await Promise.all(this.launching);
+  }
+
+  /**
+   * Open a fresh context on the least busy browser. Pair every call with
+   * `release`, typically in a `finally` block.
+   */
+  async acquire(contextOptions: BrowserContextOptions = {}): Promise<BrowserContext> {
+    if (this.closed) {
+      throw new Error('Browser pool is closed');
+    }
+
+    await this.warm();
+
+    const entry = this.available().sort((a, b) => a.active - b.active)[0];
+    if (!entry) {
+      throw new Error('No browser available');
+    }
+
+    entry.jobs++;
+    entry.active++;
+    this.jobsServed++;
+    if (entry.jobs >= this.options.maxJobsPerBrowser) {
+      entry.retiring = true;
+    }
+
+    try {
+      const context = await entry.browser.newContext(contextOptions);
+      this.leases.set(context, entry);
+      return context;
+    } catch (error) {
+      entry.active--;
+      await this.retireIfIdle(entry);
+      throw error;
+    }
+  }
+
+  async release(context: BrowserContext): Promise<void> {
+    const entry = this.leases.get(context);
+    this.leases.delete(context);
+
+    await context.close().catch(() => {});
+
+    if (entry) {
+      entry.active--;
+      await this.retireIfIdle(entry);
+    }
+  }
+
+  /**
+   * Run `job` in a fresh context and always release it afterwards
+   */
+  async withContext<T>(
+    contextOptions: BrowserContextOptions,
+    job: (context: BrowserContext) => Promise<T>
+  ): Promise<T> {
+    const context = await this.acquire(contextOptions);
+    try {
+      return await job(context);
+    } finally {
+      await this.release(context);
+    }
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      browsers: this.browsers.length,
+      launching: this.launching.size,
+      activeContexts: this.leases.size,
+      jobsServed: this.jobsServed,
+      recycled: this.recycled
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.allSettled(this.launching);
+
+    const entries = this.browsers.splice(0);
+    this.leases.clear();
+    await Promise.allSettled(
+      entries.map((entry) => {
+        entry.retiring = true;
+        return entry.browser.close();
+      })
+    );
+    console.log(`Browser pool closed (${entries.length} browsers)`);
+  }
+
+  private available(): PooledBrowser[] {
+    return this.browsers.filter((entry) => !entry.retiring && entry.browser.isConnected());
+  }
+
+  private launch(): void {
+    const launching = chromium
+      .launch({ headless: true, args: this.options.launchArgs })
+      .then(async (browser) => {
+        if (this.closed) {
+          await browser.close();
+          return;
+        }
+
+        const entry: PooledBrowser = { browser, jobs: 0, active: 0, retiring: false };
+        browser.on('disconnected', () => this.handleDisconnect(entry));
+        this.browsers.push(entry);
+      })
+      .finally(() => {
+        this.launching.delete(launching);
+      });
+
+    this.launching.add(launching);
+  }
+
+  private handleDisconnect(entry: PooledBrowser): void {
+    this.remove(entry);
+    if (entry.retiring || this.closed) return;
+
+    console.warn('Browser disconnected unexpectedly; launching a replacement');
+    this.warm().catch((error) => {
+      console.error('Failed to replace browser:', error.message);
+    });
+  }
+
+  private async retireIfIdle(entry: PooledBrowser): Promise<void> {
+    if (!entry.retiring || entry.active > 0) return;
+
+    this.remove(entry);
+    this.recycled++;
+    await entry.browser.close().catch(() => {});
+  }
+
+  private remove(entry: PooledBrowser): void {
+    const index = this.browsers.indexOf(entry);
+    if (index !== -1) {
+      this.browsers.splice(index, 1);
+    }
+  }
+}
+
+export const browserPool = new BrowserPool({
+  size: CONFIG.BROWSER_POOL_SIZE,
+  maxJobsPerBrowser: CONFIG.BROWSER_MAX_JOBS,
+  launchArgs: [
+    '--disable-blink-features=AutomationControlled',
+    '--disable-web-security',
+    ...(CONFIG.BROWSER_NO_SANDBOX ? ['--no-sandbox', '--disable-setuid-sandbox'] : [])
+  ]
+});
@@ -0,0 +1,191 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config.js';
+
+/**
+ * Per-request cache behaviour:
+ * - use: serve a fresh entry if there is one, otherwise capture and store
+ * - refresh: always capture, then replace the stored entry
+ * - bypass: always capture and leave the cache untouched
+ */
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+export type CacheStatus = 'hit' | 'miss' | 'refresh' | 'bypass';
+
+export const CACHE_MODES: CacheMode[] = ['use', 'refresh', 'bypass'];
+
+export interface CaptureCacheOptions {
+  dir: string;
+  ttlMs: number;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  size: number;
+  storedAt: number;
+  lastAccess: number;
+}
+
+/**
+ * Extraction results on disk, one JSON file per key. The key is a hash of
+ * the URL and the normalized capture options, so identical requests share an
+ * entry. Entries expire after `ttlMs`; when the directory grows past
+ * `maxBytes` the least recently used entries are deleted.
+ */
+export class CaptureCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly options: CaptureCacheOptions) {}
+
+  /**
+   * Hash of the request inputs. Object keys are sorted and undefined values
+   * dropped so equivalent requests produce the same key.
+   */
+  key(input: unknown): string {
+    return createHash('sha256').update(stableStringify(input)).digest('hex');
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.storedAt > this.options.ttlMs) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    try {
+      const value = JSON.parse(await fs.readFile(this.filePath(key), 'utf8')) as T;
+      entry.lastAccess = Date.now();
+      return value;
+    } catch (error: any) {
+      console.warn(`Cache entry ${key} unreadable: ${error.message}`);
+      await this.delete(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.load();
+
+    const body = JSON.stringify(value);
+    const size = Buffer.byteLength(body);
+    if (size > this.options.maxBytes) {
+      console.warn(`Capture too large to cache (${size} bytes)`);
+      return;
+    }
+
+    // Write then rename so readers never see a partial file
+    const file = this.filePath(key);
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, body);
+    await fs.rename(temp, file);
+
+    const now = Date.now();
+    this.entries.set(key, { size, storedAt: now, lastAccess: now });
+    await this.evict();
+  }
+
+  getStats(): { entries: number; bytes: number; maxBytes: number } {
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes(),
+      maxBytes: this.options.maxBytes
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.scan().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Rebuild the index from the directory; file mtimes stand in for both the
+   * store time and the last access of entries written by earlier runs
+   */
+  private async scan(): Promise<void> {
+    await fs.mkdir(this.options.dir, { recursive: true });
+
+    for (const name of await fs.readdir(this.options.dir)) {
+      const file = path.join(this.options.dir, name);
+      if (name.endsWith('.tmp')) {
+        await fs.rm(file, { force: true });
+        continue;
+      }
+      if (!name.endsWith('.json')) continue;
+
+      const stats = await fs.stat(file);
+      this.entries.set(name.slice(0, -'.json'.length), {
+        size: stats.size,
+        storedAt: stats.mtimeMs,
+        lastAccess: stats.mtimeMs
+      });
+    }
+
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now - entry.storedAt > this.options.ttlMs) {
+        await this.delete(key);
+      }
+    }
+
+    const byAge = Array.from(this.entries.entries()).sort(
+      ([, a], [, b]) => a.lastAccess - b.lastAccess
+    );
+    let total = this.totalBytes();
+    for (const [key, entry] of byAge) {
+      if (total <= this.options.maxBytes) break;
+      await this.delete(key);
+      total -= entry.size;
+    }
+  }
+
+  private async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  private totalBytes(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) total += entry.size;
+    return total;
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.options.dir, `${key}.json`);
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const fields = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${fields.join(',')}}`;
+}
+
+export const captureCache = new CaptureCache({
+  dir: CONFIG.CACHE_DIR,
+  ttlMs: CONFIG.CACHE_TTL_MS,
+  maxBytes: CONFIG.CACHE_MAX_BYTES
+});
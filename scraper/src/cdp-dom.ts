@@ -0,0 +1,75 @@
+import type { CDPSession, Page } from 'playwright';
+
+/** Temporarily marks captured elements with their IR node id */
+export const NODE_ID_ATTRIBUTE = 'data-figma-node-id';
+
+interface DOMNode {
+  nodeId: number;
+  attributes?: string[];
+  children?: DOMNode[];
+  shadowRoots?: DOMNode[];
+}
+
+/**
+ * Mark the elements behind IR nodes so CDP nodes can be matched to them.
+ * Selectors may use `>>` to step into open shadow roots. Pair with
+ * `untagElements`.
+ */
+export async function tagElements(
+  page: Page,
+  targets: { id: string; selector: string }[]
+): Promise<void> {
+  await page.evaluate(
+    ({ targets, attribute }) => {
+      for (const { id, selector } of targets) {
+        try {
+          let scope: ParentNode | null = document;
+          let element: Element | null = null;
+          for (const part of selector.split(' >> ')) {
+            element = scope ? scope.querySelector(part) : null;
+            scope = element?.shadowRoot ?? null;
+          }
+          element?.setAttribute(attribute, id);
+        } catch (e) {
+          // Selector no longer valid, skip
+        }
+      }
+    },
+    { targets, attribute: NODE_ID_ATTRIBUTE }
+  );
+}
+
+export async function untagElements(page: Page): Promise<void> {
+  await page.evaluate((attribute) => {
+    const clear = (scope: Document | ShadowRoot) => {
+      scope.querySelectorAll('*').forEach((element) => {
+        element.removeAttribute(attribute);
+        if (element.shadowRoot) clear(element.shadowRoot);
+      });
+    };
+    clear(document);
+  }, NODE_ID_ATTRIBUTE);
+}
+
+/**
+ * CDP node id of every tagged element, keyed by IR node id. Enables the DOM
+ * domain on `session`; the ids stay valid until the session is detached.
+ */
+export async function findTaggedNodes(session: CDPSession): Promise<Map<string, number>> {
+  await session.send('DOM.enable');
+  const { root } = await session.send('DOM.getDocument', { depth: -1, pierce: true });
+
+  const tagged = new Map<string, number>();
+  const walk = (node: DOMNode) => {
+    const attributes = node.attributes || [];
+    const index = attributes.indexOf(NODE_ID_ATTRIBUTE);
+    if (index !== -1 && index % 2 === 0) {
+      tagged.set(attributes[index + 1], node.nodeId);
+    }
+    node.children?.forEach(walk);
+    node.shadowRoots?.forEach(walk);
+  };
+  walk(root as DOMNode);
+
+  return tagged;
+}
@@ -0,0 +1,131 @@
+import type { Page } from 'playwright';
+import type {
+  ColorScheme,
+  ColorSchemeTokens,
+  ColorSchemeToggle,
+  IRColorStyles
+} from '../../ir.js';
+
+/** Time given to CSS transitions after switching schemes */
+export const COLOR_SCHEME_SETTLE_MS = 300;
+
+const COLOR_KEYS: (keyof IRColorStyles)[] = ['color', 'backgroundColor', 'borderColor'];
+
+interface SchemePass {
+  nodes: { id: string; tag?: string; styles?: Record<string, any> }[];
+  variables: Record<string, any>;
+}
+
+/**
+ * Validate the `colorSchemes` request option: `true` or a toggle object
+ */
+export function validateColorSchemes(input: unknown): boolean | ColorSchemeToggle | undefined {
+  if (input === undefined || input === null || input === false) return undefined;
+  if (input === true) return true;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('colorSchemes must be true or a toggle object');
+  }
+
+  const { target, className, attribute } = input as any;
+  if (target !== undefined && (typeof target !== 'string' || !target.trim())) {
+    throw new Error('colorSchemes.target must be a selector');
+  }
+  if (className !== undefined && (typeof className !== 'string' || !/^[\w-]+$/.test(className))) {
+    throw new Error('colorSchemes.className must be a single class name');
+  }
+  if (
+    attribute !== undefined &&
+    (typeof attribute?.name !== 'string' || !attribute.name || typeof attribute.value !== 'string')
+  ) {
+    throw new Error('colorSchemes.attribute must be { name, value }');
+  }
+
+  return { target, className, attribute };
+}
+
+/**
+ * Switch the page to a scheme: `prefers-color-scheme` emulation plus the
+ * optional class/attribute toggle (added for dark, removed for light)
+ */
+export async function applyColorScheme(
+  page: Page,
+  scheme: ColorScheme,
+  toggle?: ColorSchemeToggle
+): Promise<void> {
+  await page.emulateMedia({ colorScheme: scheme });
+
+  if (toggle && (toggle.className || toggle.attribute)) {
+    const applied = await page.evaluate(
+      ({ toggle, dark }) => {
+        const target = document.querySelector(toggle.target || 'html');
+        if (!target) return false;
+        if (toggle.className) {
+          target.classList.toggle(toggle.className, dark);
+        }
+        if (toggle.attribute) {
+          if (dark) {
+            target.setAttribute(toggle.attribute.name, toggle.attribute.value);
+          } else {
+            target.removeAttribute(toggle.attribute.name);
+          }
+        }
+        return true;
+      },
+      { toggle, dark: scheme === 'dark' }
+    );
+    if (!applied) {
+      throw new Error(`Color scheme toggle target not found: ${toggle.target || 'html'}`);
+    }
+  }
+
+  await page.waitForTimeout(COLOR_SCHEME_SETTLE_MS);
+}
+
+/**
+ * Keep only colors that changed between the passes. Nodes are matched by id
+ * when ids are stable, otherwise by position (same DOM, same walk order).
+ */
+export function diffColorSchemes(
+  light: SchemePass,
+  dark: SchemePass,
+  matchById: boolean
+): ColorSchemeTokens {
+  const result: ColorSchemeTokens = { variables: {}, nodes: {} };
+
+  for (const [name, lightValue] of Object.entries(light.variables)) {
+    const darkValue = dark.variables[name];
+    if (typeof lightValue !== 'string' || typeof darkValue !== 'string') continue;
+    if (lightValue.trim() !== darkValue.trim()) {
+      result.variables[name] = { light: lightValue.trim(), dark: darkValue.trim() };
+    }
+  }
+
+  const darkById = new Map(dark.nodes.map((node) => [node.id, node]));
+  const samePositions = light.nodes.length === dark.nodes.length;
+
+  light.nodes.forEach((node, index) => {
+    const other = matchById
+      ? darkById.get(node.id)
+      : samePositions && dark.nodes[index].tag === node.tag
+      ? dark.nodes[index]
+      : undefined;
+    if (!other) return;
+
+    const lightColors: IRColorStyles = {};
+    const darkColors: IRColorStyles = {};
+    for (const key of COLOR_KEYS) {
+      const lightValue = node.styles?.[key];
+      const darkValue = other.styles?.[key];
+      if (lightValue && darkValue && lightValue !== darkValue) {
+        lightColors[key] = lightValue;
+        darkColors[key] = darkValue;
+      }
+    }
+
+    if (Object.keys(lightColors).length > 0) {
+      result.nodes[node.id] = { light: lightColors, dark: darkColors };
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import type { IRComponent } from '../../ir.js';
+
+/** Occurrences needed before a subtree becomes a component */
+const MIN_INSTANCES = 2;
+/** Nodes (root included) a subtree needs; single leaves are not components */
+const MIN_SUBTREE_NODES = 2;
+const MAX_COMPONENTS = 50;
+
+/**
+ * Styles that must match between occurrences. Text, images and size are left
+ * out: they are what instances are allowed to override.
+ */
+const SIGNATURE_STYLES = [
+  'display',
+  'position',
+  'flexDirection',
+  'justifyContent',
+  'alignItems',
+  'gap',
+  'padding',
+  'backgroundColor',
+  'backgroundImage',
+  'color',
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'lineHeight',
+  'textAlign',
+  'textTransform',
+  'borderRadius',
+  'border',
+  'boxShadow',
+  'opacity'
+];
+
+/** Classes that mark a state rather than a kind of element */
+const STATE_CLASS = /^(is-|has-)|^(active|selected|current|open|disabled|hover|focus)$/;
+
+interface ComponentNode {
+  id: string;
+  tag: string;
+  type: string;
+  name?: string;
+  componentHint?: string;
+  parent?: string;
+  children?: string[];
+  classList?: string[];
+  styles?: Record<string, any>;
+}
+
+/**
+ * Group subtrees that share tag shape, class signature and style signature.
+ * Larger subtrees win: occurrences nested inside an already chosen component
+ * are left to that component.
+ */
+export function detectComponents(nodes: ComponentNode[]): IRComponent[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const childrenOf = (node: ComponentNode) =>
+    (node.children || []).map((id) => byId.get(id)).filter((child): child is ComponentNode => !!child);
+
+  const signatures = new Map<string, string>();
+  const sizes = new Map<string, number>();
+  const signatureOf = (node: ComponentNode): string => {
+    const cached = signatures.get(node.id);
+    if (cached) return cached;
+
+    const children = childrenOf(node);
+    const classes = (node.classList || []).filter((name) => !STATE_CLASS.test(name)).sort();
+    const styles = SIGNATURE_STYLES.map((key) => node.styles?.[key] ?? '');
+    const signature = hash(
+      JSON.stringify([node.tag, node.type, classes, styles, children.map(signatureOf)])
+    );
+
+    signatures.set(node.id, signature);
+    sizes.set(node.id, 1 + children.reduce((sum, child) => sum + sizes.get(child.id)!, 0));
+    return signature;
+  };
+
+  const groups = new Map<string, ComponentNode[]>();
+  for (const node of nodes) {
+    const signature = signatureOf(node);
+    if (node.type !== 'FRAME' || sizes.get(node.id)! < MIN_SUBTREE_NODES) continue;
+    const group = groups.get(signature) || [];
+    group.push(node);
+    groups.set(signature, group);
+  }
+
+  const isInside = (node: ComponentNode, ancestors: Set<string>) => {
+    for (let id = node.parent; id; id = byId.get(id)?.parent) {
+      if (ancestors.has(id)) return true;
+    }
+    return false;
+  };
+
+  const covered = new Set<string>();
+  const components: IRComponent[] = [];
+  const usedNames = new Set<string>();
+  const candidates = Array.from(groups.entries())
+    .filter(([, members]) => members.length >= MIN_INSTANCES)
+    .sort(([, a], [, b]) => sizes.get(b[0].id)! - sizes.get(a[0].id)!);
+
+  for (const [signature, group] of candidates) {
+    if (components.length >= MAX_COMPONENTS) break;
+
+    const members = group.filter((node) => !isInside(node, covered));
+    if (members.length < MIN_INSTANCES) continue;
+    members.forEach((node) => covered.add(node.id));
+
+    components.push({
+      id: `component-${signature.slice(0, 12)}`,
+      name: uniqueName(componentName(members[0]), usedNames),
+      canonical: members[0].id,
+      instances: members.map((node) => node.id)
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Classes are part of the signature, so they describe every occurrence;
+ * semantic names may come from one occurrence's aria-label
+ */
+function componentName(node: ComponentNode): string {
+  const base =
+    node.classList?.find((name) => !STATE_CLASS.test(name)) ||
+    node.componentHint ||
+    node.name ||
+    node.tag;
+  return base
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, (letter) => letter.toUpperCase())
+    .trim();
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let suffix = 2; used.has(unique); suffix++) {
+    unique = `${name} ${suffix}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex');
+}
@@ -5,5 +5,20 @@ export const CONFIG = {
   IMAGE_CHUNK_SIZE: parseInt(process.env.IMAGE_CHUNK_SIZE || '65536', 10),
   IMAGE_TIMEOUT_MS: parseInt(process.env.IMAGE_TIMEOUT_MS || '15000', 10),
   IMAGE_ASSEMBLY_TIMEOUT_MS: parseInt(process.env.IMAGE_ASSEMBLY_TIMEOUT_MS || '30000', 10),
-  MAX_CONCURRENT_IMAGES: parseInt(process.env.MAX_CONCURRENT_IMAGES || '5', 10)
+  MAX_CONCURRENT_IMAGES: parseInt(process.env.MAX_CONCURRENT_IMAGES || '5', 10),
+  STREAM_WINDOW: Math.max(1, parseInt(process.env.STREAM_WINDOW || '16', 10)),
+  STREAM_ACK_TIMEOUT_MS: parseInt(process.env.STREAM_ACK_TIMEOUT_MS || '60000', 10),
+  STREAM_RESUME_TIMEOUT_MS: parseInt(process.env.STREAM_RESUME_TIMEOUT_MS || '60000', 10),
+  BROWSER_POOL_SIZE: Math.max(1, parseInt(process.env.BROWSER_POOL_SIZE || '2', 10)),
+  BROWSER_MAX_JOBS: Math.max(1, parseInt(process.env.BROWSER_MAX_JOBS || '50', 10)),
+  // Only for containers that cannot run Chromium's sandbox (e.g. as root)
+  BROWSER_NO_SANDBOX: process.env.BROWSER_NO_SANDBOX === 'true',
+  JOB_CONCURRENCY: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10)),
+  JOB_TIMEOUT_MS: parseInt(process.env.JOB_TIMEOUT_MS || '180000', 10),
+  JOB_RETENTION_MS: parseInt(process.env.JOB_RETENTION_MS || '1800000', 10),
+  CACHE_DIR: process.env.CACHE_DIR || '.capture-cache',
+  CACHE_TTL_MS: parseInt(process.env.CACHE_TTL_MS || '3600000', 10),
+  CACHE_MAX_BYTES: parseInt(process.env.CACHE_MAX_BYTES || '524288000', 10),
+  // Writes extraction-sample.json to the working directory after each DOM pass
+  DEBUG_EXTRACTION: process.env.DEBUG_EXTRACTION === 'true'
 };
@@ -0,0 +1,235 @@
+import type { Page } from 'playwright';
+import type { InteractionState, IRStates, IRStyles } from '../../ir.js';
+import { NODE_ID_ATTRIBUTE, findTaggedNodes, tagElements, untagElements } from './cdp-dom.js';
+
+/** Pseudo-classes forced for each state (pressing also hovers) */
+const FORCED_PSEUDO_CLASSES: Record<Exclude<InteractionState, 'disabled'>, string[]> = {
+  hover: ['hover'],
+  focus: ['focus', 'focus-visible'],
+  active: ['hover', 'active']
+};
+
+/** Elements with a `disabled` property; there is no pseudo-class to force */
+const DISABLEABLE_TAGS = ['button', 'input', 'select', 'textarea'];
+
+/** Computed styles compared between the default and a forced state */
+const STATE_STYLE_KEYS: (keyof IRStyles)[] = [
+  'color',
+  'fontWeight',
+  'textDecoration',
+  'textShadow',
+  'backgroundColor',
+  'backgroundImage',
+  'border',
+  'borderColor',
+  'borderWidth',
+  'borderStyle',
+  'borderRadius',
+  'boxShadow',
+  'opacity',
+  'filter',
+  'transform'
+];
+
+/** Inherited by raw text fragments from their parent element */
+const TEXT_STATE_KEYS: (keyof IRStyles)[] = ['color', 'fontWeight', 'textDecoration', 'textShadow'];
+
+const NO_TRANSITIONS_STYLE_ID = 'figma-capture-no-transitions';
+
+interface StateNode {
+  id: string;
+  tag: string;
+  componentHint?: string;
+  selector?: string;
+  parent?: string;
+  children?: string[];
+  framePath?: string[];
+}
+
+type StyleSnapshot = Record<string, Record<string, string>>;
+
+/**
+ * Force each interaction state on `targets` through CDP and record which
+ * computed styles change, on the element itself and on its descendants
+ * (`.card:hover .title`). Transitions are switched off meanwhile so the
+ * end state is read, not a frame of the animation.
+ *
+ * Enabled buttons and form controls also get a disabled state, read by
+ * setting `disabled` on the element for a moment.
+ *
+ * Returns the states per target id, plus the ids CDP could not reach (for
+ * example elements inside iframes) so the caller can fall back to screenshots.
+ */
+export async function captureStateStyles(
+  page: Page,
+  targets: StateNode[],
+  nodes: StateNode[]
+): Promise<{ states: Record<string, IRStates>; unresolved: string[] }> {
+  const states: Record<string, IRStates> = {};
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  const subtrees = new Map<string, StateNode[]>();
+  for (const target of targets) {
+    const subtree: StateNode[] = [];
+    const visit = (node: StateNode) => {
+      subtree.push(node);
+      (node.children || []).forEach((id) => {
+        const child = byId.get(id);
+        if (child) visit(child);
+      });
+    };
+    visit(target);
+    subtrees.set(target.id, subtree);
+  }
+
+  const elements = Array.from(subtrees.values())
+    .flat()
+    .filter((node) => node.selector && !node.framePath?.length)
+    .map((node) => ({ id: node.id, selector: node.selector! }));
+
+  const unresolved: string[] = [];
+  await tagElements(page, elements);
+  await page.evaluate((id) => {
+    const style = document.createElement('style');
+    style.id = id;
+    style.textContent =
+      '*, *::before, *::after { transition: none !important; animation-play-state: paused !important; }';
+    document.head.appendChild(style);
+  }, NO_TRANSITIONS_STYLE_ID);
+
+  try {
+    const session = await page.context().newCDPSession(page);
+    try {
+      const tagged = await findTaggedNodes(session);
+      await session.send('CSS.enable');
+
+      for (const target of targets) {
+        const nodeId = tagged.get(target.id);
+        if (nodeId === undefined) {
+          unresolved.push(target.id);
+          continue;
+        }
+
+        const subtree = subtrees.get(target.id)!;
+        const ids = subtree.map((node) => node.id).filter((id) => tagged.has(id));
+        const base = await readStyles(page, ids);
+        const nodeStates: IRStates = {};
+
+        for (const [state, pseudoClasses] of Object.entries(FORCED_PSEUDO_CLASSES)) {
+          // Only buttons get a pressed state, as with the screenshot capture
+          if (state === 'active' && target.componentHint !== 'button') continue;
+          try {
+            await session.send('CSS.forcePseudoState', {
+              nodeId,
+              forcedPseudoClasses: pseudoClasses
+            });
+            const diff = diffStyles(base, await readStyles(page, ids));
+            addTextFragments(diff, subtree);
+            if (Object.keys(diff).length > 0) {
+              nodeStates[state as keyof typeof FORCED_PSEUDO_CLASSES] = diff;
+            }
+          } finally {
+            await session
+              .send('CSS.forcePseudoState', { nodeId, forcedPseudoClasses: [] })
+              .catch(() => {});
+          }
+        }
+
+        if (DISABLEABLE_TAGS.includes(target.tag) && (await setDisabled(page, target.id, true))) {
+          try {
+            const diff = diffStyles(base, await readStyles(page, ids));
+            addTextFragments(diff, subtree);
+            if (Object.keys(diff).length > 0) {
+              nodeStates.disabled = diff;
+            }
+          } finally {
+            await setDisabled(page, target.id, false);
+          }
+        }
+
+        if (Object.keys(nodeStates).length > 0) {
+          states[target.id] = nodeStates;
+        }
+      }
+    } finally {
+      await session.detach().catch(() => {});
+    }
+  } finally {
+    await page.evaluate((id) => document.getElementById(id)?.remove(), NO_TRANSITIONS_STYLE_ID);
+    await untagElements(page);
+  }
+
+  return { states, unresolved };
+}
+
+async function readStyles(page: Page, ids: string[]): Promise<StyleSnapshot> {
+  return page.evaluate(
+    ({ ids, attribute, keys }) => {
+      const wanted = new Set(ids);
+      const snapshot: Record<string, Record<string, string>> = {};
+      const read = (scope: Document | ShadowRoot) => {
+        scope.querySelectorAll(`[${attribute}]`).forEach((element) => {
+          const id = element.getAttribute(attribute)!;
+          if (!wanted.has(id)) return;
+          const computed = getComputedStyle(element) as unknown as Record<string, string>;
+          snapshot[id] = Object.fromEntries(keys.map((key) => [key, computed[key]]));
+        });
+        scope.querySelectorAll('*').forEach((element) => {
+          if (element.shadowRoot) read(element.shadowRoot);
+        });
+      };
+      read(document);
+      return snapshot;
+    },
+    { ids, attribute: NODE_ID_ATTRIBUTE, keys: STATE_STYLE_KEYS as string[] }
+  );
+}
+
+/**
+ * Set `disabled` on a tagged element. False when the element is missing or
+ * already in that state, so a control the page disabled is left alone.
+ */
+async function setDisabled(page: Page, id: string, disabled: boolean): Promise<boolean> {
+  return page.evaluate(
+    ({ id, attribute, disabled }) => {
+      const find = (scope: Document | ShadowRoot): Element | null => {
+        const match = scope.querySelector(`[${attribute}="${CSS.escape(id)}"]`);
+        if (match) return match;
+        for (const element of Array.from(scope.querySelectorAll('*'))) {
+          const found = element.shadowRoot ? find(element.shadowRoot) : null;
+          if (found) return found;
+        }
+        return null;
+      };
+      const element = find(document) as HTMLButtonElement | null;
+      if (!element || !('disabled' in element) || element.disabled === disabled) return false;
+      element.disabled = disabled;
+      return true;
+    },
+    { id, attribute: NODE_ID_ATTRIBUTE, disabled }
+  );
+}
+
+function diffStyles(base: StyleSnapshot, next: StyleSnapshot): Record<string, Partial<IRStyles>> {
+  const diff: Record<string, Partial<IRStyles>> = {};
+  for (const [id, styles] of Object.entries(next)) {
+    const changed: Record<string, string> = {};
+    for (const [key, value] of Object.entries(styles)) {
+      if (base[id] && base[id][key] !== value) changed[key] = value;
+    }
+    if (Object.keys(changed).length > 0) diff[id] = changed;
+  }
+  return diff;
+}
+
+/** Raw text fragments have no element; they follow their parent's text styles */
+function addTextFragments(diff: Record<string, Partial<IRStyles>>, subtree: StateNode[]): void {
+  for (const node of subtree) {
+    if (node.tag !== '#text' || !node.parent || !diff[node.parent]) continue;
+    const inherited: Partial<IRStyles> = {};
+    for (const key of TEXT_STATE_KEYS) {
+      if (diff[node.parent][key] !== undefined) inherited[key] = diff[node.parent][key];
+    }
+    if (Object.keys(inherited).length > 0) diff[node.id] = inherited;
+  }
+}
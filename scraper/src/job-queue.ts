@@ -0,0 +1,183 @@
+import { randomUUID } from 'crypto';
+
+const CANCELLED_MESSAGE = 'Job cancelled';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Latest progress report; `stage` uses the same names as the `/ws` PROGRESS
+ * messages (capturing_page, scraping_dom, ...)
+ */
+export interface JobProgress {
+  stage: string;
+  [key: string]: any;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  report(progress: JobProgress): void;
+}
+
+export type JobRunner<TRequest, TResult> = (
+  request: TRequest,
+  context: JobContext
+) => Promise<TResult>;
+
+export interface Job<TRequest, TResult> {
+  id: string;
+  status: JobStatus;
+  progress: JobProgress;
+  request: TRequest;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  result?: TResult;
+}
+
+export interface JobQueueOptions {
+  /** Jobs allowed to run at the same time */
+  concurrency: number;
+  /** Running jobs are aborted and marked failed after this long */
+  timeoutMs: number;
+  /** Finished jobs (and their results) are dropped after this long */
+  retentionMs: number;
+}
+
+interface JobRecord<TRequest, TResult> extends Job<TRequest, TResult> {
+  controller: AbortController;
+}
+
+/**
+ * In-memory FIFO queue for capture jobs. Jobs run in submission order with
+ * at most `concurrency` in flight; cancellation and timeouts go through the
+ * job's AbortSignal, and the slot is freed as soon as the job is aborted.
+ */
+export class JobQueue<TRequest, TResult> {
+  private readonly jobs = new Map<string, JobRecord<TRequest, TResult>>();
+  private readonly pending: JobRecord<TRequest, TResult>[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly runner: JobRunner<TRequest, TResult>,
+    private readonly options: JobQueueOptions
+  ) {}
+
+  submit(request: TRequest): Job<TRequest, TResult> {
+    const record: JobRecord<TRequest, TResult> = {
+      id: randomUUID(),
+      status: 'queued',
+      progress: { stage: 'queued' },
+      request,
+      createdAt: Date.now(),
+      controller: new AbortController()
+    };
+
+    this.jobs.set(record.id, record);
+    this.pending.push(record);
+    this.pump();
+    return record;
+  }
+
+  get(id: string): Job<TRequest, TResult> | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Cancel a queued or running job. Returns the job, or undefined if unknown.
+   */
+  cancel(id: string): Job<TRequest, TResult> | undefined {
+    const record = this.jobs.get(id);
+    if (!record) return undefined;
+
+    if (record.status === 'queued') {
+      this.pending.splice(this.pending.indexOf(record), 1);
+      this.finish(record, 'cancelled', CANCELLED_MESSAGE);
+    } else if (record.status === 'running') {
+      // Reported right away; run() records finishedAt once the runner settles
+      record.status = 'cancelled';
+      record.controller.abort(new Error(CANCELLED_MESSAGE));
+    }
+
+    return record;
+  }
+
+  /**
+   * Forget a finished job and its result
+   */
+  remove(id: string): boolean {
+    const record = this.jobs.get(id);
+    if (!record || record.status === 'queued' || record.status === 'running') {
+      return false;
+    }
+    return this.jobs.delete(id);
+  }
+
+  getStats(): { queued: number; running: number; total: number } {
+    return {
+      queued: this.pending.length,
+      running: this.running,
+      total: this.jobs.size
+    };
+  }
+
+  private pump(): void {
+    while (this.running < this.options.concurrency && this.pending.length > 0) {
+      const record = this.pending.shift()!;
+      this.running++;
+      void this.run(record).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(record: JobRecord<TRequest, TResult>): Promise<void> {
+    const { signal } = record.controller;
+    record.status = 'running';
+    record.startedAt = Date.now();
+
+    const timer = setTimeout(() => {
+      record.controller.abort(new Error(`Job timed out after ${this.options.timeoutMs}ms`));
+    }, this.options.timeoutMs);
+
+    // Settle on abort even if the runner is slow to notice
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+    aborted.catch(() => {});
+
+    try {
+      const result = await Promise.race([
+        this.runner(record.request, {
+          signal,
+          report: (progress) => {
+            if (record.status === 'running') record.progress = progress;
+          }
+        }),
+        aborted
+      ]);
+      record.result = result;
+      this.finish(record, 'completed');
+    } catch (error) {
+      const reason = signal.aborted ? signal.reason : error;
+      const message = reason instanceof Error ? reason.message : String(reason);
+      this.finish(record, message === CANCELLED_MESSAGE ? 'cancelled' : 'failed', message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private finish(
+    record: JobRecord<TRequest, TResult>,
+    status: JobStatus,
+    error?: string
+  ): void {
+    record.status = status;
+    record.progress = { ...record.progress, stage: status };
+    record.finishedAt = Date.now();
+    if (error) record.error = error;
+
+    setTimeout(() => this.jobs.delete(record.id), this.options.retentionMs).unref();
+  }
+}
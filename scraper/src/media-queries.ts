@@ -0,0 +1,205 @@
+import type { Page } from 'playwright';
+import type { MediaBreakpoint } from '../../ir.js';
+
+const ROOT_FONT_SIZE = 16;
+const MAX_QUERIES_PER_BREAKPOINT = 5;
+
+/**
+ * Keep the text of every stylesheet the page loads. Cross-origin sheets
+ * cannot be read through CSSOM, so their bodies are taken from the network
+ * instead. Only listens to responses: routing would send every request
+ * through Node and turn off the browser's HTTP cache. Must be installed
+ * before navigation; the returned function waits for the bodies still
+ * being read.
+ */
+export function recordStylesheets(page: Page): () => Promise<Map<string, string>> {
+  const sheets = new Map<string, string>();
+  const pending: Promise<void>[] = [];
+
+  page.on('response', (response) => {
+    if (response.request().resourceType() !== 'stylesheet') return;
+    pending.push(
+      response
+        .text()
+        .then((body) => {
+          sheets.set(response.url(), body);
+        })
+        .catch(() => {
+          // Redirects and aborted loads have no body
+        })
+    );
+  });
+
+  return async () => {
+    await Promise.all(pending);
+    return sheets;
+  };
+}
+
+/**
+ * Collect the width conditions of every @media rule (and media-qualified
+ * <link>/@import) and merge them into breakpoints, smallest first
+ */
+export async function extractMediaBreakpoints(
+  page: Page,
+  interceptedSheets: Map<string, string>
+): Promise<MediaBreakpoint[]> {
+  const { queries, blockedSheets } = await page.evaluate(() => {
+    const queries: string[] = [];
+    const blockedSheets: string[] = [];
+
+    const walkRules = (rules: CSSRuleList) => {
+      for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSMediaRule) {
+          queries.push(rule.media.mediaText);
+        }
+        if (rule instanceof CSSImportRule) {
+          if (rule.media.mediaText) queries.push(rule.media.mediaText);
+          if (rule.styleSheet) walkSheet(rule.styleSheet);
+        } else if ('cssRules' in rule) {
+          // @media, @supports, @layer and @container blocks can nest more rules
+          walkRules((rule as CSSGroupingRule).cssRules);
+        }
+      }
+    };
+
+    const walkSheet = (sheet: CSSStyleSheet) => {
+      if (sheet.media.mediaText) queries.push(sheet.media.mediaText);
+      try {
+        walkRules(sheet.cssRules);
+      } catch (e) {
+        // Cross-origin: read from the recorded response instead
+        if (sheet.href) blockedSheets.push(sheet.href);
+      }
+    };
+
+    Array.from(document.styleSheets).forEach(walkSheet);
+    return { queries, blockedSheets };
+  });
+
+  for (const href of blockedSheets) {
+    const text = interceptedSheets.get(href) ?? (await fetchStylesheet(page, href));
+    if (text) {
+      queries.push(...findMediaQueries(text));
+    }
+  }
+
+  return mergeBreakpoints(queries);
+}
+
+/**
+ * Fetch a sheet whose response was not recorded (served from the memory
+ * cache, or loaded before the listener was installed). Goes through the
+ * context's request API so the page's cookies and headers still apply.
+ */
+async function fetchStylesheet(page: Page, href: string): Promise<string | undefined> {
+  try {
+    const response = await page.context().request.get(href, { timeout: 10000 });
+    return response.ok() ? await response.text() : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Media query texts of @media and @import rules in raw CSS
+ */
+function findMediaQueries(css: string): string[] {
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const queries: string[] = [];
+
+  for (const match of withoutComments.matchAll(/@media\s+([^{]+)\{/g)) {
+    queries.push(match[1].trim());
+  }
+  for (const match of withoutComments.matchAll(/@import\s+(?:url\([^)]*\)|["'][^"']*["'])\s*([^;]+);/g)) {
+    queries.push(match[1].trim());
+  }
+
+  return queries;
+}
+
+function toPx(value: string, unit = 'px'): number {
+  const number = parseFloat(value);
+  return unit === 'em' || unit === 'rem' ? number * ROOT_FONT_SIZE : number;
+}
+
+/**
+ * Viewport widths at which the conditions in a media query flip. Lower
+ * bounds apply from their own width; upper bounds stop applying one pixel
+ * later (`max-width: 767.98px` → 768).
+ */
+export function parseWidthConditions(query: string): { width: number; bound: 'min' | 'max' }[] {
+  const conditions: { width: number; bound: 'min' | 'max' }[] = [];
+  const length = '([\\d.]+)(px|em|rem)?';
+
+  for (const match of query.matchAll(new RegExp(`\\((min|max)-width\\s*:\\s*${length}\\s*\\)`, 'g'))) {
+    const px = toPx(match[2], match[3]);
+    conditions.push(
+      match[1] === 'min'
+        ? { width: Math.ceil(px), bound: 'min' }
+        : { width: Math.floor(px) + 1, bound: 'max' }
+    );
+  }
+
+  // Range syntax: (width >= 768px), (768px <= width < 1024px), ...
+  for (const match of query.matchAll(/\(([^()]*\bwidth\b[^()]*)\)/g)) {
+    const range = match[1];
+    if (/(min|max)-width/.test(range)) continue;
+
+    const leading = range.match(new RegExp(`^\\s*${length}\\s*(<=?|>=?)\\s*width`));
+    if (leading) {
+      const px = toPx(leading[1], leading[2]);
+      conditions.push(rangeBound(px, flip(leading[3])));
+    }
+
+    const trailing = range.match(new RegExp(`width\\s*(<=?|>=?)\\s*${length}\\s*$`));
+    if (trailing) {
+      conditions.push(rangeBound(toPx(trailing[2], trailing[3]), trailing[1]));
+    }
+  }
+
+  return conditions.filter((condition) => condition.width > 0);
+}
+
+/** `768px < width` reads as `width > 768px` */
+function flip(operator: string): string {
+  return operator.startsWith('<') ? operator.replace('<', '>') : operator.replace('>', '<');
+}
+
+/** Boundary for `width <op> px` */
+function rangeBound(px: number, operator: string): { width: number; bound: 'min' | 'max' } {
+  switch (operator) {
+    case '>=':
+      return { width: Math.ceil(px), bound: 'min' };
+    case '>':
+      return { width: Math.floor(px) + 1, bound: 'min' };
+    case '<=':
+      return { width: Math.floor(px) + 1, bound: 'max' };
+    default:
+      return { width: Math.ceil(px), bound: 'max' };
+  }
+}
+
+/**
+ * Group the width conditions of media queries by width, smallest first
+ */
+export function mergeBreakpoints(queries: string[]): MediaBreakpoint[] {
+  const byWidth = new Map<number, MediaBreakpoint>();
+
+  for (const query of queries) {
+    for (const { width, bound } of parseWidthConditions(query)) {
+      const breakpoint = byWidth.get(width) || { width, minRules: 0, maxRules: 0, queries: [] };
+      if (bound === 'min') breakpoint.minRules++;
+      else breakpoint.maxRules++;
+      if (
+        breakpoint.queries.length < MAX_QUERIES_PER_BREAKPOINT &&
+        !breakpoint.queries.includes(query)
+      ) {
+        breakpoint.queries.push(query);
+      }
+      byWidth.set(width, breakpoint);
+    }
+  }
+
+  return Array.from(byWidth.values()).sort((a, b) => a.width - b.width);
+}
@@ -12,10 +12,41 @@
  * Target Accuracy: 95-100%
  */
 
-import { chromium, Browser, Page } from "playwright";
+import {
+  Browser,
+  BrowserContextOptions,
+  ElementHandle,
+  Frame,
+  Page,
+} from "playwright";
 import fetch from "node-fetch";
 import * as fs from "fs";
 import * as path from "path";
+import { resolveViewport, viewportsFromBreakpoints } from "./viewports.js";
+import type { ViewportInput } from "./viewports.js";
+import { runActions } from "./actions.js";
+import { browserPool } from "./browser-pool.js";
+import { CONFIG } from "./config.js";
+import { applyColorScheme, diffColorSchemes } from "./color-schemes.js";
+import {
+  extractMediaBreakpoints,
+  recordStylesheets,
+} from "./media-queries.js";
+import { extractTokenRefs } from "./token-refs.js";
+import { detectComponents } from "./components.js";
+import { captureStateStyles } from "./interaction-states.js";
+import type {
+  Asset,
+  BreakpointInfo,
+  CaptureAction,
+  CaptureAuth,
+  ColorSchemeToggle,
+  ColorSchemeTokens,
+  IdScheme,
+  IRComponent,
+  IRStates,
+  MediaBreakpoint,
+} from "../../ir.js";
 
 export interface ExtractedFont {
   family: string;
@@ -39,9 +70,30 @@ export interface ExtractionOptions {
   captureStates?: boolean;
   capturePseudoElements?: boolean;
   extractSVG?: boolean;
-  viewport?: { width: number; height: number };
+  captureIframes?: boolean;
+  captureTokenRefs?: boolean;
+  detectComponents?: boolean;
+  viewport?: ViewportInput;
+  auth?: CaptureAuth;
+  actions?: CaptureAction[];
+  rootSelector?: string | string[];
+  idScheme?: IdScheme;
+  colorSchemes?: boolean | ColorSchemeToggle;
+  /** Aborting closes the page's browser context, failing the capture */
+  signal?: AbortSignal;
 }
 
+interface DOMExtractionOptions {
+  capturePseudoElements: boolean;
+  screenshotComplexOnly: boolean;
+  rootSelectors?: string[];
+  idScheme: IdScheme;
+  /** Fingerprint prefix for nodes of a child frame (the owning iframe's id) */
+  idPrefix?: string;
+}
+
+const MAX_IFRAME_DEPTH = 3;
+
 export interface LoadInfo {
   timestamps: {
     documentReady?: number;
@@ -66,13 +118,64 @@ export interface LoadInfo {
   errors: { phase: string; message: string }[];
 }
 
+type DOMData = ReturnType<typeof extractDOMData>;
+
+/**
+ * Result of the DOM pass: everything the plugin needs to start building,
+ * before screenshots, states and fonts are in
+ */
+export type ExtractedPage = Omit<DOMData, "nodes" | "tokens"> & {
+  nodes: any[];
+  tokens: DOMData["tokens"] & {
+    breakpoints: MediaBreakpoint[];
+    colorSchemes?: ColorSchemeTokens;
+  };
+  components: IRComponent[];
+  breakpoint: BreakpointInfo;
+};
+
+/**
+ * What `streamExtraction` yields, in order: the page as soon as the DOM pass
+ * is done, then screenshots (in batches), states and fonts as each phase
+ * finishes, and the load info last
+ */
+export type ExtractionEvent =
+  | { type: "page"; page: ExtractedPage }
+  | { type: "screenshots"; screenshots: Record<string, string> }
+  | { type: "states"; states: Record<string, IRStates> }
+  | { type: "fonts"; fonts: ExtractedFont[] }
+  | { type: "done"; loadInfo: LoadInfo };
+
+export type ExtractionResult = ExtractedPage & {
+  fonts: ExtractedFont[];
+  screenshots: Record<string, string>;
+  states: Record<string, IRStates>;
+  assets: Asset[];
+  loadInfo: LoadInfo;
+};
+
 /**
  * Main extraction function with all features
  */
 export async function extractComplete(
   url: string,
   options: ExtractionOptions = {}
-) {
+): Promise<ExtractionResult> {
+  const events: ExtractionEvent[] = [];
+  for await (const event of streamExtraction(url, options)) {
+    events.push(event);
+  }
+  return mergeExtractionEvents(events);
+}
+
+/**
+ * Extraction as it happens. The browser context is released when the
+ * generator finishes, throws or is returned from early.
+ */
+export async function* streamExtraction(
+  url: string,
+  options: ExtractionOptions = {}
+): AsyncGenerator<ExtractionEvent> {
   const {
     captureFonts = true,
     captureScreenshots = true,
@@ -80,693 +183,1736 @@ export async function extractComplete(
     captureStates = false,
     capturePseudoElements = true,
     extractSVG = true,
-    viewport = { width: 1440, height: 900 },
+    captureIframes = true,
+    captureTokenRefs = true,
+    detectComponents: findComponents = true,
+    viewport = "desktop",
+    auth,
+    actions = [],
+    rootSelector,
+    idScheme = "stable",
+    colorSchemes,
+    signal,
   } = options;
 
-  console.log("Starting extraction with options:", options);
+  signal?.throwIfAborted();
 
-  const browser = await chromium.launch({
-    headless: true,
-    args: [
-      "--disable-blink-features=AutomationControlled",
-      "--disable-web-security",
-    ],
-  });
+  const rootSelectors =
+    rootSelector === undefined
+      ? undefined
+      : Array.isArray(rootSelector)
+      ? rootSelector
+      : [rootSelector];
 
-  const context = await browser.newContext({
-    viewport,
-    deviceScaleFactor: 2,
-    userAgent:
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
+  console.log("Starting extraction with options:", {
+    ...options,
+    auth: auth ? "[redacted]" : undefined,
+    signal: undefined,
   });
 
-  const page = await context.newPage();
-
-  // Navigate and wait for full load
-  await page.goto(url, {
-    waitUntil: "networkidle",
-    timeout: 30000,
+  const emulation = resolveViewport(viewport);
+
+  // Fresh isolated context on a warm browser; released even if capture fails
+  const context = await browserPool.acquire({
+    viewport: { width: emulation.width, height: emulation.height },
+    deviceScaleFactor: emulation.deviceScaleFactor,
+    isMobile: emulation.isMobile,
+    hasTouch: emulation.hasTouch,
+    userAgent: emulation.userAgent,
+    extraHTTPHeaders: auth?.headers,
+    httpCredentials: auth?.httpCredentials,
+    storageState: auth?.storageState as BrowserContextOptions["storageState"],
   });
 
-  console.log("Waiting for page to be fully loaded...");
-  const loadInfo = await waitForFullyLoaded(page);
+  // Closing the context makes any in-flight Playwright call reject
+  const abortCapture = () => {
+    context.close().catch(() => {});
+  };
+  signal?.addEventListener("abort", abortCapture, { once: true });
+  if (signal?.aborted) abortCapture();
 
-  // Scroll to load lazy content
-  await autoScroll(page);
+  try {
+    if (auth?.cookies && auth.cookies.length > 0) {
+      // Playwright needs either a url or a domain/path pair for each cookie
+      await context.addCookies(
+        auth.cookies.map((cookie) =>
+          cookie.url || cookie.domain ? cookie : { ...cookie, url }
+        )
+      );
+    }
 
-  // Extract fonts
-  let fonts: ExtractedFont[] = [];
-  if (captureFonts) {
-    console.log("Extracting fonts...");
-    fonts = await extractFonts(page, url);
-    console.log(`Extracted ${fonts.length} fonts`);
-  }
+    const page = await context.newPage();
+    // Cross-origin stylesheets can't be read via CSSOM; keep their bodies for the @media pass
+    const stylesheets = recordStylesheets(page);
+    const schemeToggle =
+      typeof colorSchemes === "object" ? colorSchemes : undefined;
+    if (colorSchemes) {
+      // The main capture is the light scheme; dark is diffed in afterwards
+      await page.emulateMedia({ colorScheme: "light" });
+    }
 
-  // Extract DOM data
-  console.log("Extracting DOM data...");
-  const data = await page.evaluate(
-    (opts) => {
-      const generateId = () => Math.random().toString(36).substr(2, 9);
+    // Navigate and wait for full load
+    await page.goto(url, {
+      waitUntil: "networkidle",
+      timeout: 30000,
+    });
 
-      /**
-       * PHASE 1: Comprehensive CSS extraction (60+ properties)
-       */
-      const extractAllStyles = (styles: CSSStyleDeclaration) => {
-        return {
-          // Typography
-          color: styles.color !== "rgb(0, 0, 0)" ? styles.color : undefined,
-          fontSize: styles.fontSize !== "16px" ? styles.fontSize : undefined,
-          fontWeight:
-            styles.fontWeight !== "400" ? styles.fontWeight : undefined,
-          fontFamily: styles.fontFamily,
-          fontStyle:
-            styles.fontStyle !== "normal" ? styles.fontStyle : undefined,
-          lineHeight:
-            styles.lineHeight !== "normal" ? styles.lineHeight : undefined,
-          letterSpacing:
-            styles.letterSpacing !== "normal"
-              ? styles.letterSpacing
-              : undefined,
-          textAlign:
-            styles.textAlign !== "start" ? styles.textAlign : undefined,
-          textTransform:
-            styles.textTransform !== "none" ? styles.textTransform : undefined,
-          textDecoration:
-            styles.textDecoration !== "none"
-              ? styles.textDecoration
-              : undefined,
-          textShadow:
-            styles.textShadow !== "none" ? styles.textShadow : undefined,
+    console.log("Waiting for page to be fully loaded...");
+    const loadInfo = await waitForFullyLoaded(page);
 
-          // Background
-          backgroundColor:
-            styles.backgroundColor !== "rgba(0, 0, 0, 0)"
-              ? styles.backgroundColor
-              : undefined,
-          backgroundImage:
-            styles.backgroundImage !== "none"
-              ? styles.backgroundImage
-              : undefined,
-          backgroundSize:
-            styles.backgroundSize !== "auto"
-              ? styles.backgroundSize
-              : undefined,
-          backgroundPosition:
-            styles.backgroundPosition !== "0% 0%"
-              ? styles.backgroundPosition
-              : undefined,
-          backgroundRepeat:
-            styles.backgroundRepeat !== "repeat"
-              ? styles.backgroundRepeat
-              : undefined,
-          backgroundClip:
-            styles.backgroundClip !== "border-box"
-              ? styles.backgroundClip
-              : undefined,
-          backgroundOrigin:
-            styles.backgroundOrigin !== "padding-box"
-              ? styles.backgroundOrigin
-              : undefined,
+    // Scroll to load lazy content
+    await autoScroll(page);
 
-          // Layout
-          display: styles.display,
-          position: styles.position !== "static" ? styles.position : undefined,
-          top: styles.top !== "auto" ? styles.top : undefined,
-          right: styles.right !== "auto" ? styles.right : undefined,
-          bottom: styles.bottom !== "auto" ? styles.bottom : undefined,
-          left: styles.left !== "auto" ? styles.left : undefined,
-          zIndex: styles.zIndex !== "auto" ? styles.zIndex : undefined,
-
-          // Flexbox
-          flexDirection:
-            styles.flexDirection !== "row" ? styles.flexDirection : undefined,
-          justifyContent:
-            styles.justifyContent !== "normal"
-              ? styles.justifyContent
-              : undefined,
-          alignItems:
-            styles.alignItems !== "normal" ? styles.alignItems : undefined,
-          alignContent:
-            styles.alignContent !== "normal" ? styles.alignContent : undefined,
-          flexWrap: styles.flexWrap !== "nowrap" ? styles.flexWrap : undefined,
-          flexGrow: styles.flexGrow !== "0" ? styles.flexGrow : undefined,
-          flexShrink: styles.flexShrink !== "1" ? styles.flexShrink : undefined,
-          gap: styles.gap !== "normal" ? styles.gap : undefined,
-          rowGap: styles.rowGap !== "normal" ? styles.rowGap : undefined,
-          columnGap:
-            styles.columnGap !== "normal" ? styles.columnGap : undefined,
-
-          // Grid
-          gridTemplateColumns:
-            styles.gridTemplateColumns !== "none"
-              ? styles.gridTemplateColumns
-              : undefined,
-          gridTemplateRows:
-            styles.gridTemplateRows !== "none"
-              ? styles.gridTemplateRows
-              : undefined,
-          gridAutoFlow:
-            styles.gridAutoFlow !== "row" ? styles.gridAutoFlow : undefined,
-
-          // Box model
-          width: styles.width !== "auto" ? styles.width : undefined,
-          height: styles.height !== "auto" ? styles.height : undefined,
-          minWidth: styles.minWidth !== "0px" ? styles.minWidth : undefined,
-          minHeight: styles.minHeight !== "0px" ? styles.minHeight : undefined,
-          maxWidth: styles.maxWidth !== "none" ? styles.maxWidth : undefined,
-          maxHeight: styles.maxHeight !== "none" ? styles.maxHeight : undefined,
-          padding: styles.padding !== "0px" ? styles.padding : undefined,
-          paddingTop:
-            styles.paddingTop !== "0px" ? styles.paddingTop : undefined,
-          paddingRight:
-            styles.paddingRight !== "0px" ? styles.paddingRight : undefined,
-          paddingBottom:
-            styles.paddingBottom !== "0px" ? styles.paddingBottom : undefined,
-          paddingLeft:
-            styles.paddingLeft !== "0px" ? styles.paddingLeft : undefined,
-          margin: styles.margin !== "0px" ? styles.margin : undefined,
-          marginTop: styles.marginTop !== "0px" ? styles.marginTop : undefined,
-          marginRight:
-            styles.marginRight !== "0px" ? styles.marginRight : undefined,
-          marginBottom:
-            styles.marginBottom !== "0px" ? styles.marginBottom : undefined,
-          marginLeft:
-            styles.marginLeft !== "0px" ? styles.marginLeft : undefined,
-
-          // Border
-          border: styles.border !== "" ? styles.border : undefined,
-          borderTop:
-            styles.borderTop !== styles.border ? styles.borderTop : undefined,
-          borderRight:
-            styles.borderRight !== styles.border
-              ? styles.borderRight
-              : undefined,
-          borderBottom:
-            styles.borderBottom !== styles.border
-              ? styles.borderBottom
-              : undefined,
-          borderLeft:
-            styles.borderLeft !== styles.border ? styles.borderLeft : undefined,
-          borderRadius:
-            styles.borderRadius !== "0px" ? styles.borderRadius : undefined,
-          borderTopLeftRadius:
-            styles.borderTopLeftRadius !== "0px"
-              ? styles.borderTopLeftRadius
-              : undefined,
-          borderTopRightRadius:
-            styles.borderTopRightRadius !== "0px"
-              ? styles.borderTopRightRadius
-              : undefined,
-          borderBottomRightRadius:
-            styles.borderBottomRightRadius !== "0px"
-              ? styles.borderBottomRightRadius
-              : undefined,
-          borderBottomLeftRadius:
-            styles.borderBottomLeftRadius !== "0px"
-              ? styles.borderBottomLeftRadius
-              : undefined,
-          borderColor: styles.borderColor,
-          borderWidth: styles.borderWidth,
-          borderStyle: styles.borderStyle,
-
-          // Effects (Phase 5)
-          boxShadow: styles.boxShadow !== "none" ? styles.boxShadow : undefined,
-          opacity: styles.opacity !== "1" ? styles.opacity : undefined,
-          filter: styles.filter !== "none" ? styles.filter : undefined,
-          backdropFilter:
-            styles.backdropFilter !== "none"
-              ? styles.backdropFilter
-              : undefined,
-          transform: styles.transform !== "none" ? styles.transform : undefined,
-          transformOrigin:
-            styles.transformOrigin !== "50% 50%"
-              ? styles.transformOrigin
-              : undefined,
+    if (schemeToggle) {
+      await applyColorScheme(page, "light", schemeToggle);
+    }
 
-          // Clipping & Masking
-          clipPath: styles.clipPath !== "none" ? styles.clipPath : undefined,
-          maskImage: styles.maskImage !== "none" ? styles.maskImage : undefined,
-          overflow: styles.overflow !== "visible" ? styles.overflow : undefined,
-          overflowX:
-            styles.overflowX !== "visible" ? styles.overflowX : undefined,
-          overflowY:
-            styles.overflowY !== "visible" ? styles.overflowY : undefined,
-
-          // Visual
-          visibility:
-            styles.visibility !== "visible" ? styles.visibility : undefined,
-          cursor: styles.cursor !== "auto" ? styles.cursor : undefined,
-          pointerEvents:
-            styles.pointerEvents !== "auto" ? styles.pointerEvents : undefined,
-          mixBlendMode:
-            styles.mixBlendMode !== "normal" ? styles.mixBlendMode : undefined,
-          isolation: styles.isolation !== "auto" ? styles.isolation : undefined,
-
-          // Transitions & Animations
-          transition:
-            styles.transition !== "all 0s ease 0s"
-              ? styles.transition
-              : undefined,
-          animation: styles.animation !== "none" ? styles.animation : undefined,
-        };
-      };
+    // Bring the page into the requested state (dismiss banners, open menus, ...)
+    if (actions.length > 0) {
+      console.log(`Running ${actions.length} pre-capture actions...`);
+      loadInfo.errors.push(...(await runActions(page, actions)));
+      // Rects are read relative to the viewport: undo any scroll the actions left
+      await page.evaluate(() => window.scrollTo(0, 0));
+    }
 
-      /**
-       * PHASE 6: Extract pseudo-elements
-       */
-      const extractPseudoElements = (el: Element) => {
-        const pseudos: any[] = [];
+    // Extract @media breakpoints
+    let breakpoints: MediaBreakpoint[] = [];
+    try {
+      breakpoints = await extractMediaBreakpoints(page, await stylesheets());
+      console.log(
+        `Found ${breakpoints.length} media query breakpoints: ${breakpoints
+          .map((bp) => bp.width)
+          .join(", ")}`
+      );
+    } catch (error) {
+      loadInfo.errors.push({
+        phase: "breakpoints",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    // Extract DOM data
+    console.log("Extracting DOM data...");
+    const domOptions: DOMExtractionOptions = {
+      capturePseudoElements,
+      screenshotComplexOnly,
+      idScheme,
+    };
+    const data = await page.evaluate(extractDOMData, {
+      ...domOptions,
+      rootSelectors,
+    });
 
-        try {
-          const before = window.getComputedStyle(el, ":before");
-          const after = window.getComputedStyle(el, ":after");
-
-          if (
-            before.content &&
-            before.content !== "none" &&
-            before.content !== '""'
-          ) {
-            pseudos.push({
-              type: "before",
-              content: before.content.replace(/^["']|["']$/g, ""),
-              styles: extractAllStyles(before),
-            });
-          }
+    // Debug dump of the raw extraction (DEBUG_EXTRACTION=true)
+    if (CONFIG.DEBUG_EXTRACTION) {
+      try {
+        const outputPath = path.join(process.cwd(), "extraction-sample.json");
+        fs.writeFileSync(outputPath, JSON.stringify(data, null, 2));
+        console.log("✅ ✅ ✅ EXTRACTION SAMPLE SAVED ✅ ✅ ✅");
+        console.log("📁 File location:", outputPath);
+        console.log("\n=== EXTRACTION DIAGNOSTIC ===");
+        console.log("Structure type:", typeof data);
+        console.log("Has nodes:", !!data.nodes);
+        console.log("Node count:", data.nodes?.length || 0);
+        console.log("Has viewport:", !!data.viewport);
+        console.log("Has tokens:", !!data.tokens);
+
+        if (data.nodes && data.nodes.length > 0) {
+          const firstNode = data.nodes[0];
+          console.log("\nFirst node structure:");
+          console.log("- Type:", firstNode.type);
+          console.log("- Tag:", firstNode.tag);
+          console.log("- Has children:", !!firstNode.children);
+          console.log("- Children count:", firstNode.children?.length || 0);
+          console.log("- Rect:", firstNode.rect);
+          console.log("- Has styles:", !!firstNode.styles);
+          console.log("- Node keys:", Object.keys(firstNode).join(", "));
+
+          console.log("\nSample node (first 500 chars):");
+          console.log(JSON.stringify(firstNode, null, 2).slice(0, 500) + "...");
+        }
+        console.log("=== END DIAGNOSTIC ===\n");
+      } catch (error) {
+        console.error("❌ Failed to save extraction sample:", error);
+      }
+    }
 
-          if (
-            after.content &&
-            after.content !== "none" &&
-            after.content !== '""'
-          ) {
-            pseudos.push({
-              type: "after",
-              content: after.content.replace(/^["']|["']$/g, ""),
-              styles: extractAllStyles(after),
-            });
-          }
-        } catch (e) {
-          // Pseudo-element access failed
+    // Which CSS variable each property was declared with
+    if (captureTokenRefs) {
+      console.log("Tracing CSS variable references...");
+      try {
+        const tokenRefs = await extractTokenRefs(
+          page,
+          data.nodes,
+          data.tokens.explicit
+        );
+        for (const node of data.nodes) {
+          const refs = tokenRefs.get(node.id);
+          if (refs) node.tokenRefs = refs;
         }
+        console.log(`Traced token references for ${tokenRefs.size} nodes`);
+      } catch (error) {
+        loadInfo.errors.push({
+          phase: "tokenRefs",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
 
-        return pseudos;
-      };
+    // Extract iframes as nested subtrees
+    let iframeScreenshots: Record<string, string> = {};
+    if (captureIframes) {
+      console.log("Extracting iframes...");
+      const iframeData = await extractIframes(
+        page.mainFrame(),
+        data.nodes,
+        domOptions,
+        loadInfo
+      );
+      data.nodes.push(...iframeData.nodes);
+      iframeScreenshots = iframeData.screenshots;
+      console.log(
+        `Extracted ${iframeData.nodes.length} iframe nodes, ${
+          Object.keys(iframeScreenshots).length
+        } iframe fallbacks`
+      );
+    }
 
-      const getCSSVariables = () => {
-        const vars: Record<string, any> = {};
-        const root = getComputedStyle(document.documentElement);
-        for (let i = 0; i < root.length; i++) {
-          const prop = root[i];
-          if (prop.startsWith("--")) {
-            vars[prop] = root.getPropertyValue(prop);
-          }
+    // Subtree captures: move the root(s) to 0,0
+    if (data.root) {
+      rebaseRects(data.nodes, data.root.rect);
+      console.log(
+        `Captured subtree ${data.root.selectors.join(", ")} (${
+          data.root.rect.width
+        }x${data.root.rect.height})`
+      );
+    }
+
+    // Second DOM pass in dark mode; only the color differences are kept.
+    // Runs before the page is handed out: the tokens carry the dark values
+    let colorSchemeTokens: ColorSchemeTokens | undefined;
+    if (colorSchemes) {
+      console.log("Capturing dark color scheme...");
+      try {
+        await applyColorScheme(page, "dark", schemeToggle);
+        const darkData = await page.evaluate(extractDOMData, {
+          ...domOptions,
+          rootSelectors,
+        });
+        colorSchemeTokens = diffColorSchemes(
+          { nodes: data.nodes, variables: data.tokens.explicit },
+          { nodes: darkData.nodes, variables: darkData.tokens.explicit },
+          idScheme === "stable"
+        );
+        console.log(
+          `Dark scheme: ${
+            Object.keys(colorSchemeTokens.nodes).length
+          } nodes and ${
+            Object.keys(colorSchemeTokens.variables).length
+          } variables change color`
+        );
+      } catch (error) {
+        loadInfo.errors.push({
+          phase: "colorSchemes",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      // Screenshots and states are taken in the light scheme
+      try {
+        await applyColorScheme(page, "light", schemeToggle);
+      } catch (error) {
+        loadInfo.errors.push({
+          phase: "colorSchemes",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // SEMANTIC NAMING PASS: Add meaningful names to extracted nodes
+    console.log("Applying semantic naming pass...");
+    const nodesWithNames = applySemanticNaming(data.nodes);
+
+    // Repeated subtrees → one component plus instances in the plugin
+    const components = findComponents ? detectComponents(nodesWithNames) : [];
+    if (components.length > 0) {
+      console.log(
+        `Found ${components.length} repeated components (${components.reduce(
+          (sum, component) => sum + component.instances.length,
+          0
+        )} instances)`
+      );
+    }
+
+    yield {
+      type: "page",
+      page: {
+        ...data,
+        nodes: nodesWithNames,
+        tokens: {
+          ...data.tokens,
+          breakpoints,
+          colorSchemes: colorSchemeTokens,
+        },
+        components,
+        breakpoint: {
+          name: emulation.name,
+          width: emulation.width,
+          height: emulation.height,
+          deviceScaleFactor: emulation.deviceScaleFactor,
+          isMobile: emulation.isMobile,
+          hasTouch: emulation.hasTouch,
+        },
+      },
+    };
+
+    // PHASE 3: Capture element screenshots
+    if (Object.keys(iframeScreenshots).length > 0) {
+      yield { type: "screenshots", screenshots: iframeScreenshots };
+    }
+    if (captureScreenshots) {
+      console.log("Capturing element screenshots...");
+      const nodesToScreenshot = screenshotComplexOnly
+        ? data.nodes.filter((n: any) => n.needsScreenshot)
+        : data.nodes;
+
+      let captured = 0;
+      for await (const screenshots of captureElementScreenshots(
+        page,
+        nodesToScreenshot
+      )) {
+        captured += Object.keys(screenshots).length;
+        if (Object.keys(screenshots).length > 0) {
+          yield { type: "screenshots", screenshots };
         }
-        return vars;
-      };
+      }
+      console.log(`Captured ${captured} screenshots`);
+    }
+
+    // PHASE 6: Capture states (hover, focus, active) as computed-style diffs,
+    // with screenshots for elements the states can't be forced on
+    if (captureStates) {
+      console.log("Capturing interaction states...");
+      let states: Record<string, IRStates> = {};
+      const targets = data.nodes.filter(
+        (n: any) => n.componentHint === "button" || n.componentHint === "input"
+      );
+      let fallback = targets;
+      try {
+        const captured = await captureStateStyles(page, targets, data.nodes);
+        states = captured.states;
+        fallback = targets.filter((n: any) => captured.unresolved.includes(n.id));
+      } catch (error) {
+        loadInfo.errors.push({
+          phase: "states",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      Object.assign(states, await captureStateScreenshots(page, fallback));
+      console.log(`Captured states for ${Object.keys(states).length} elements`);
+      yield { type: "states", states };
+    }
 
-      const detectComponentPattern = (
-        el: Element,
-        styles: CSSStyleDeclaration
-      ) => {
-        const tag = el.tagName.toLowerCase();
-        const role = el.getAttribute("role");
-        const classList = Array.from(el.classList).join(" ");
+    // Extract fonts
+    if (captureFonts) {
+      console.log("Extracting fonts...");
+      const fonts = await extractFonts(page, url);
+      console.log(`Extracted ${fonts.length} fonts`);
+      yield { type: "fonts", fonts };
+    }
 
-        if (tag === "button" || role === "button" || classList.includes("btn"))
-          return "button";
-        if (
-          classList.includes("card") ||
-          (styles.boxShadow !== "none" && styles.borderRadius !== "0px")
-        )
-          return "card";
-        if (tag === "input" || tag === "textarea" || tag === "select")
-          return "input";
-        if (tag === "nav" || role === "navigation") return "navigation";
-        if (tag === "header" || role === "banner") return "header";
-        if (tag === "footer" || role === "contentinfo") return "footer";
-        if (tag === "aside" || role === "complementary") return "sidebar";
-        if (tag === "article" || role === "article") return "article";
-        if (tag === "section") return "section";
+    yield { type: "done", loadInfo };
+  } finally {
+    signal?.removeEventListener("abort", abortCapture);
+    await browserPool.release(context);
+  }
+}
+
+/**
+ * Assemble the events of one capture into its result
+ */
+export function mergeExtractionEvents(
+  events: ExtractionEvent[]
+): ExtractionResult {
+  let page: ExtractedPage | undefined;
+  let loadInfo: LoadInfo | undefined;
+  const fonts: ExtractedFont[] = [];
+  const screenshots: Record<string, string> = {};
+  const states: Record<string, IRStates> = {};
+
+  for (const event of events) {
+    switch (event.type) {
+      case "page":
+        page = event.page;
+        break;
+      case "screenshots":
+        Object.assign(screenshots, event.screenshots);
+        break;
+      case "states":
+        Object.assign(states, event.states);
+        break;
+      case "fonts":
+        fonts.push(...event.fonts);
+        break;
+      case "done":
+        loadInfo = event.loadInfo;
+        break;
+    }
+  }
+
+  if (!page || !loadInfo) {
+    throw new Error("Extraction ended before the page was captured");
+  }
+  return { ...page, fonts, screenshots, states, assets: [], loadInfo };
+}
+
+/**
+ * The events a finished capture was made of, to replay it (from the cache)
+ * the way a live extraction is streamed
+ */
+export function toExtractionEvents(capture: ExtractionResult): ExtractionEvent[] {
+  const { fonts, screenshots, states, assets, loadInfo, ...page } = capture;
+  return [
+    { type: "page", page },
+    { type: "screenshots", screenshots },
+    { type: "states", states },
+    { type: "fonts", fonts },
+    { type: "done", loadInfo },
+  ];
+}
+
+/** An event of one capture in a multi-viewport run */
+export type ViewportExtractionEvent = ExtractionEvent & {
+  index: number;
+  /** Grows once the first "auto" capture has found the site's breakpoints */
+  total: number;
+};
+
+/**
+ * Capture the same page once per viewport or device preset
+ */
+export async function extractViewports(
+  url: string,
+  viewports: ViewportInput[] | "auto",
+  mode: ExtractionMode = "hybrid",
+  overrides: ExtractionOptions = {}
+) {
+  const events: ViewportExtractionEvent[] = [];
+  for await (const event of streamViewports(url, viewports, mode, overrides)) {
+    events.push(event);
+  }
+  return mergeViewportEvents(events, viewports);
+}
+
+/**
+ * Assemble the events of a multi-viewport run into one result per capture
+ */
+export function mergeViewportEvents(
+  events: ViewportExtractionEvent[],
+  viewports: ViewportInput[] | "auto"
+): ExtractionResult[] {
+  const byCapture: ExtractionEvent[][] = [];
+  for (const event of events) {
+    if (!byCapture[event.index]) byCapture[event.index] = [];
+    byCapture[event.index].push(event);
+  }
+  const captures = byCapture.map(mergeExtractionEvents);
+
+  if (viewports === "auto") {
+    captures.sort((a, b) => a.breakpoint.width - b.breakpoint.width);
+  }
+
+  return captures;
+}
+
+/**
+ * `extractViewports` as it happens: the events of each capture in turn,
+ * tagged with the capture's index. "auto" captures come in capture order
+ * (desktop first), not sorted by width.
+ */
+export async function* streamViewports(
+  url: string,
+  viewports: ViewportInput[] | "auto",
+  mode: string = "hybrid",
+  overrides: ExtractionOptions = {}
+): AsyncGenerator<ViewportExtractionEvent> {
+  // "auto": capture desktop first, then one viewport per range of its @media breakpoints
+  const queue: ViewportInput[] = viewports === "auto" ? ["desktop"] : [...viewports];
+
+  for (let index = 0; index < queue.length; index++) {
+    const viewport = queue[index];
+    overrides.signal?.throwIfAborted();
+    console.log(`Capturing breakpoint: ${resolveViewport(viewport).name}`);
+
+    for await (const event of streamWithMode(url, mode, { ...overrides, viewport })) {
+      if (event.type === "page" && viewports === "auto" && index === 0) {
+        const derived = viewportsFromBreakpoints(
+          event.page.tokens.breakpoints,
+          resolveViewport(viewport)
+        );
+        console.log(
+          `Site breakpoints add ${derived.length} viewports: ${derived
+            .map((spec) => spec.width)
+            .join(", ")}`
+        );
+        queue.push(...derived);
+      }
+      yield { ...event, index, total: queue.length };
+    }
+  }
+}
+
+/**
+ * In-page DOM extraction. Runs inside the browser through `frame.evaluate`, so
+ * it must stay self-contained (no references to module scope).
+ */
+function extractDOMData(opts: DOMExtractionOptions) {
+  const generateId = () => Math.random().toString(36).substr(2, 9);
+
+  /**
+   * Stable ids: two 32-bit FNV-1a hashes of the element's DOM fingerprint,
+   * with a `-n` suffix when two elements share a fingerprint
+   */
+  const usedIds = new Set<string>();
+  const hashString = (value: string, seed: number) => {
+    let hash = seed >>> 0;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 16777619) >>> 0;
+    }
+    return hash.toString(36).padStart(7, "0");
+  };
+
+  const claimId = (base: string) => {
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  const fingerprints = new Map<Element, string>();
+  const getFingerprint = (el: Element): string => {
+    const cached = fingerprints.get(el);
+    if (cached) return cached;
+
+    const tag = el.tagName.toLowerCase();
+    const parentNode = el.parentNode;
+    const siblings =
+      parentNode instanceof Element || parentNode instanceof ShadowRoot
+        ? Array.from(parentNode.children).filter((child) => child.tagName === el.tagName)
+        : [el];
+    const keys = [
+      el.id ? `#${el.id}` : "",
+      el.getAttribute("name") ? `[name=${el.getAttribute("name")}]` : "",
+      el.getAttribute("data-testid")
+        ? `[data-testid=${el.getAttribute("data-testid")}]`
+        : "",
+    ].join("");
+    const segment = `${tag}${keys}:${siblings.indexOf(el)}`;
+
+    // Shadow roots continue through their host
+    const root = el.getRootNode();
+    const parent =
+      el.parentElement || (root instanceof ShadowRoot ? root.host : null);
+    const fingerprint = parent
+      ? `${getFingerprint(parent)}/${root instanceof ShadowRoot && !el.parentElement ? "#shadow/" : ""}${segment}`
+      : `${opts.idPrefix || ""}|${segment}`;
+
+    fingerprints.set(el, fingerprint);
+    return fingerprint;
+  };
+
+  const getElementId = (el: Element) => {
+    if (opts.idScheme === "random") return generateId();
+    const fingerprint = getFingerprint(el);
+    return claimId(
+      hashString(fingerprint, 0x811c9dc5) + hashString(fingerprint, 0x9747b28c)
+    );
+  };
+
+  /**
+   * PHASE 1: Comprehensive CSS extraction (60+ properties)
+   */
+  const extractAllStyles = (styles: CSSStyleDeclaration) => {
+    return {
+      // Typography
+      color: styles.color !== "rgb(0, 0, 0)" ? styles.color : undefined,
+      fontSize: styles.fontSize !== "16px" ? styles.fontSize : undefined,
+      fontWeight:
+        styles.fontWeight !== "400" ? styles.fontWeight : undefined,
+      fontFamily: styles.fontFamily,
+      fontStyle:
+        styles.fontStyle !== "normal" ? styles.fontStyle : undefined,
+      lineHeight:
+        styles.lineHeight !== "normal" ? styles.lineHeight : undefined,
+      letterSpacing:
+        styles.letterSpacing !== "normal"
+          ? styles.letterSpacing
+          : undefined,
+      textAlign:
+        styles.textAlign !== "start" ? styles.textAlign : undefined,
+      textTransform:
+        styles.textTransform !== "none" ? styles.textTransform : undefined,
+      textDecoration:
+        styles.textDecoration !== "none"
+          ? styles.textDecoration
+          : undefined,
+      textShadow:
+        styles.textShadow !== "none" ? styles.textShadow : undefined,
+
+      // Background
+      backgroundColor:
+        styles.backgroundColor !== "rgba(0, 0, 0, 0)"
+          ? styles.backgroundColor
+          : undefined,
+      backgroundImage:
+        styles.backgroundImage !== "none"
+          ? styles.backgroundImage
+          : undefined,
+      backgroundSize:
+        styles.backgroundSize !== "auto"
+          ? styles.backgroundSize
+          : undefined,
+      backgroundPosition:
+        styles.backgroundPosition !== "0% 0%"
+          ? styles.backgroundPosition
+          : undefined,
+      backgroundRepeat:
+        styles.backgroundRepeat !== "repeat"
+          ? styles.backgroundRepeat
+          : undefined,
+      backgroundClip:
+        styles.backgroundClip !== "border-box"
+          ? styles.backgroundClip
+          : undefined,
+      backgroundOrigin:
+        styles.backgroundOrigin !== "padding-box"
+          ? styles.backgroundOrigin
+          : undefined,
+
+      // Layout
+      display: styles.display,
+      position: styles.position !== "static" ? styles.position : undefined,
+      top: styles.top !== "auto" ? styles.top : undefined,
+      right: styles.right !== "auto" ? styles.right : undefined,
+      bottom: styles.bottom !== "auto" ? styles.bottom : undefined,
+      left: styles.left !== "auto" ? styles.left : undefined,
+      zIndex: styles.zIndex !== "auto" ? styles.zIndex : undefined,
+
+      // Flexbox
+      flexDirection:
+        styles.flexDirection !== "row" ? styles.flexDirection : undefined,
+      justifyContent:
+        styles.justifyContent !== "normal"
+          ? styles.justifyContent
+          : undefined,
+      alignItems:
+        styles.alignItems !== "normal" ? styles.alignItems : undefined,
+      alignContent:
+        styles.alignContent !== "normal" ? styles.alignContent : undefined,
+      flexWrap: styles.flexWrap !== "nowrap" ? styles.flexWrap : undefined,
+      flexGrow: styles.flexGrow !== "0" ? styles.flexGrow : undefined,
+      flexShrink: styles.flexShrink !== "1" ? styles.flexShrink : undefined,
+      gap: styles.gap !== "normal" ? styles.gap : undefined,
+      rowGap: styles.rowGap !== "normal" ? styles.rowGap : undefined,
+      columnGap:
+        styles.columnGap !== "normal" ? styles.columnGap : undefined,
+
+      // Grid
+      gridTemplateColumns:
+        styles.gridTemplateColumns !== "none"
+          ? styles.gridTemplateColumns
+          : undefined,
+      gridTemplateRows:
+        styles.gridTemplateRows !== "none"
+          ? styles.gridTemplateRows
+          : undefined,
+      gridAutoFlow:
+        styles.gridAutoFlow !== "row" ? styles.gridAutoFlow : undefined,
+
+      // Box model
+      width: styles.width !== "auto" ? styles.width : undefined,
+      height: styles.height !== "auto" ? styles.height : undefined,
+      minWidth: styles.minWidth !== "0px" ? styles.minWidth : undefined,
+      minHeight: styles.minHeight !== "0px" ? styles.minHeight : undefined,
+      maxWidth: styles.maxWidth !== "none" ? styles.maxWidth : undefined,
+      maxHeight: styles.maxHeight !== "none" ? styles.maxHeight : undefined,
+      padding: styles.padding !== "0px" ? styles.padding : undefined,
+      paddingTop:
+        styles.paddingTop !== "0px" ? styles.paddingTop : undefined,
+      paddingRight:
+        styles.paddingRight !== "0px" ? styles.paddingRight : undefined,
+      paddingBottom:
+        styles.paddingBottom !== "0px" ? styles.paddingBottom : undefined,
+      paddingLeft:
+        styles.paddingLeft !== "0px" ? styles.paddingLeft : undefined,
+      margin: styles.margin !== "0px" ? styles.margin : undefined,
+      marginTop: styles.marginTop !== "0px" ? styles.marginTop : undefined,
+      marginRight:
+        styles.marginRight !== "0px" ? styles.marginRight : undefined,
+      marginBottom:
+        styles.marginBottom !== "0px" ? styles.marginBottom : undefined,
+      marginLeft:
+        styles.marginLeft !== "0px" ? styles.marginLeft : undefined,
+
+      // Border
+      border: styles.border !== "" ? styles.border : undefined,
+      borderTop:
+        styles.borderTop !== styles.border ? styles.borderTop : undefined,
+      borderRight:
+        styles.borderRight !== styles.border
+          ? styles.borderRight
+          : undefined,
+      borderBottom:
+        styles.borderBottom !== styles.border
+          ? styles.borderBottom
+          : undefined,
+      borderLeft:
+        styles.borderLeft !== styles.border ? styles.borderLeft : undefined,
+      borderRadius:
+        styles.borderRadius !== "0px" ? styles.borderRadius : undefined,
+      borderTopLeftRadius:
+        styles.borderTopLeftRadius !== "0px"
+          ? styles.borderTopLeftRadius
+          : undefined,
+      borderTopRightRadius:
+        styles.borderTopRightRadius !== "0px"
+          ? styles.borderTopRightRadius
+          : undefined,
+      borderBottomRightRadius:
+        styles.borderBottomRightRadius !== "0px"
+          ? styles.borderBottomRightRadius
+          : undefined,
+      borderBottomLeftRadius:
+        styles.borderBottomLeftRadius !== "0px"
+          ? styles.borderBottomLeftRadius
+          : undefined,
+      borderColor: styles.borderColor,
+      borderWidth: styles.borderWidth,
+      borderStyle: styles.borderStyle,
+
+      // Effects (Phase 5)
+      boxShadow: styles.boxShadow !== "none" ? styles.boxShadow : undefined,
+      opacity: styles.opacity !== "1" ? styles.opacity : undefined,
+      filter: styles.filter !== "none" ? styles.filter : undefined,
+      backdropFilter:
+        styles.backdropFilter !== "none"
+          ? styles.backdropFilter
+          : undefined,
+      transform: styles.transform !== "none" ? styles.transform : undefined,
+      transformOrigin:
+        styles.transformOrigin !== "50% 50%"
+          ? styles.transformOrigin
+          : undefined,
+
+      // Clipping & Masking
+      clipPath: styles.clipPath !== "none" ? styles.clipPath : undefined,
+      maskImage: styles.maskImage !== "none" ? styles.maskImage : undefined,
+      overflow: styles.overflow !== "visible" ? styles.overflow : undefined,
+      overflowX:
+        styles.overflowX !== "visible" ? styles.overflowX : undefined,
+      overflowY:
+        styles.overflowY !== "visible" ? styles.overflowY : undefined,
+
+      // Visual
+      visibility:
+        styles.visibility !== "visible" ? styles.visibility : undefined,
+      cursor: styles.cursor !== "auto" ? styles.cursor : undefined,
+      pointerEvents:
+        styles.pointerEvents !== "auto" ? styles.pointerEvents : undefined,
+      mixBlendMode:
+        styles.mixBlendMode !== "normal" ? styles.mixBlendMode : undefined,
+      isolation: styles.isolation !== "auto" ? styles.isolation : undefined,
+
+      // Transitions & Animations
+      transition:
+        styles.transition !== "all 0s ease 0s"
+          ? styles.transition
+          : undefined,
+      animation: styles.animation !== "none" ? styles.animation : undefined,
+    };
+  };
+
+  /**
+   * PHASE 6: Extract pseudo-elements
+   */
+  const extractPseudoElements = (el: Element) => {
+    const pseudos: any[] = [];
+
+    try {
+      const before = window.getComputedStyle(el, ":before");
+      const after = window.getComputedStyle(el, ":after");
+
+      if (
+        before.content &&
+        before.content !== "none" &&
+        before.content !== '""'
+      ) {
+        pseudos.push({
+          type: "before",
+          content: before.content.replace(/^["']|["']$/g, ""),
+          styles: extractAllStyles(before),
+        });
+      }
+
+      if (
+        after.content &&
+        after.content !== "none" &&
+        after.content !== '""'
+      ) {
+        pseudos.push({
+          type: "after",
+          content: after.content.replace(/^["']|["']$/g, ""),
+          styles: extractAllStyles(after),
+        });
+      }
+    } catch (e) {
+      // Pseudo-element access failed
+    }
+
+    return pseudos;
+  };
+
+  /**
+   * Form controls: values, checked state and selection live on element
+   * properties rather than attributes, so read them at capture time
+   */
+  const MAX_SELECT_OPTIONS = 100;
+
+  const getFormControlKind = (el: Element): string | null => {
+    if (el instanceof HTMLTextAreaElement) return "textarea";
+    if (el instanceof HTMLSelectElement) return "select";
+    if (!(el instanceof HTMLInputElement)) return null;
+
+    switch (el.type) {
+      case "hidden":
+      case "image":
         return null;
-      };
+      case "checkbox":
+      case "radio":
+      case "range":
+      case "color":
+      case "file":
+        return el.type;
+      case "button":
+      case "submit":
+      case "reset":
+        return "button";
+      case "date":
+      case "datetime-local":
+      case "month":
+      case "time":
+      case "week":
+        return "date";
+      default:
+        return "text";
+    }
+  };
+
+  const extractFormState = (el: Element, styles: CSSStyleDeclaration) => {
+    const control = getFormControlKind(el);
+    if (!control) return undefined;
+
+    const accentColor = styles.getPropertyValue("accent-color");
+    const state: Record<string, any> = {
+      control,
+      disabled: (el as HTMLInputElement).disabled,
+      required: (el as HTMLInputElement).required || undefined,
+      accentColor: accentColor && accentColor !== "auto" ? accentColor : undefined,
+      nativeAppearance: styles.getPropertyValue("appearance") !== "none",
+    };
+
+    if (el instanceof HTMLSelectElement) {
+      const selected = el.options[el.selectedIndex];
+      state.value = el.value;
+      state.selectedIndex = el.selectedIndex;
+      state.selectedText = selected ? selected.text : undefined;
+      state.options = Array.from(el.options)
+        .slice(0, MAX_SELECT_OPTIONS)
+        .map((option) => ({
+          value: option.value,
+          text: option.text,
+          selected: option.selected,
+          disabled: option.disabled,
+        }));
+      return state;
+    }
+
+    const field = el as HTMLInputElement | HTMLTextAreaElement;
+    if (field instanceof HTMLInputElement) {
+      state.inputType = field.type;
+
+      if (control === "checkbox" || control === "radio") {
+        state.value = field.value;
+        state.checked = field.checked;
+        state.indeterminate = field.indeterminate || undefined;
+        return state;
+      }
+
+      if (control === "range") {
+        const toNumber = (value: string, fallback: number) =>
+          Number.isFinite(parseFloat(value)) ? parseFloat(value) : fallback;
+        state.value = field.value;
+        state.min = toNumber(field.min, 0);
+        state.max = toNumber(field.max, 100);
+        state.step = toNumber(field.step, 1);
+        return state;
+      }
+
+      if (control === "file") {
+        state.value = Array.from(field.files || [])
+          .map((file) => file.name)
+          .join(", ");
+        return state;
+      }
+
+      if (control === "button") {
+        state.value =
+          field.value ||
+          (field.type === "submit" ? "Submit" : field.type === "reset" ? "Reset" : "");
+        return state;
+      }
+    }
+
+    state.value =
+      field instanceof HTMLInputElement && field.type === "password"
+        ? "•".repeat(field.value.length)
+        : field.value;
+    state.readOnly = field.readOnly || undefined;
+
+    if (field.placeholder) {
+      state.placeholder = field.placeholder;
+      if (!field.value) {
+        const placeholder = getComputedStyle(el, "::placeholder");
+        state.placeholderStyles = {
+          color: placeholder.color,
+          fontFamily: placeholder.fontFamily,
+          fontSize: placeholder.fontSize,
+          fontWeight: placeholder.fontWeight,
+          fontStyle: placeholder.fontStyle,
+          opacity: placeholder.opacity !== "1" ? placeholder.opacity : undefined,
+        };
+      }
+    }
+
+    return state;
+  };
+
+  // Controls the plugin cannot redraw (pickers, file buttons) are screenshotted
+  const isBrowserDrawnControl = (formState: Record<string, any> | undefined) =>
+    !!formState &&
+    formState.nativeAppearance &&
+    ["color", "file", "date"].includes(formState.control);
+
+  const getCSSVariables = () => {
+    const vars: Record<string, any> = {};
+    const root = getComputedStyle(document.documentElement);
+    for (let i = 0; i < root.length; i++) {
+      const prop = root[i];
+      if (prop.startsWith("--")) {
+        vars[prop] = root.getPropertyValue(prop);
+      }
+    }
+    return vars;
+  };
+
+  const detectComponentPattern = (
+    el: Element,
+    styles: CSSStyleDeclaration
+  ) => {
+    const tag = el.tagName.toLowerCase();
+    const role = el.getAttribute("role");
+    const classList = Array.from(el.classList).join(" ");
+
+    if (tag === "button" || role === "button" || classList.includes("btn"))
+      return "button";
+    if (
+      classList.includes("card") ||
+      (styles.boxShadow !== "none" && styles.borderRadius !== "0px")
+    )
+      return "card";
+    if (tag === "input" || tag === "textarea" || tag === "select")
+      return "input";
+    if (tag === "nav" || role === "navigation") return "navigation";
+    if (tag === "header" || role === "banner") return "header";
+    if (tag === "footer" || role === "contentinfo") return "footer";
+    if (tag === "aside" || role === "complementary") return "sidebar";
+    if (tag === "article" || role === "article") return "article";
+    if (tag === "section") return "section";
+    return null;
+  };
+
+  /**
+   * PHASE 3: Check if element needs screenshot
+   */
+  const needsScreenshot = (styles: CSSStyleDeclaration, el: Element) => {
+    return !!(
+      (styles.backgroundImage &&
+        styles.backgroundImage.includes("gradient")) ||
+      styles.filter !== "none" ||
+      styles.backdropFilter !== "none" ||
+      (styles.transform &&
+        (styles.transform.includes("rotate") ||
+          styles.transform.includes("skew"))) ||
+      styles.clipPath !== "none" ||
+      styles.maskImage !== "none" ||
+      (styles.boxShadow !== "none" &&
+        styles.boxShadow.split(",").length > 2) || // Multi-layer shadows
+      el.tagName === "CANVAS" ||
+      el.tagName === "VIDEO"
+    );
+  };
 
-      /**
-       * PHASE 3: Check if element needs screenshot
-       */
-      const needsScreenshot = (styles: CSSStyleDeclaration, el: Element) => {
-        return !!(
-          (styles.backgroundImage &&
-            styles.backgroundImage.includes("gradient")) ||
-          styles.filter !== "none" ||
-          styles.backdropFilter !== "none" ||
-          (styles.transform &&
-            (styles.transform.includes("rotate") ||
-              styles.transform.includes("skew"))) ||
-          styles.clipPath !== "none" ||
-          styles.maskImage !== "none" ||
-          (styles.boxShadow !== "none" &&
-            styles.boxShadow.split(",").length > 2) || // Multi-layer shadows
-          el.tagName === "CANVAS" ||
-          el.tagName === "VIDEO"
+  /**
+   * Generate unique CSS selector for element within a document or shadow root
+   */
+  const generateScopedSelector = (
+    element: Element,
+    scope: Document | ShadowRoot
+  ): string => {
+    if (element.id) return `#${element.id}`;
+
+    const classes = Array.from(element.classList).filter(
+      (c) => c && !c.includes(" ")
+    );
+    if (classes.length > 0) {
+      const selector = `.${classes[0]}`;
+      // Check if unique
+      if (scope.querySelectorAll(selector).length === 1) {
+        return selector;
+      }
+    }
+
+    // Build path
+    const path: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current !== document.body) {
+      const tag = current.tagName.toLowerCase();
+      const parent: Element | null = current.parentElement;
+      // Top-level elements of a shadow root have no parentElement
+      const siblingPool = parent
+        ? parent.children
+        : current.parentNode instanceof ShadowRoot
+        ? current.parentNode.children
+        : null;
+
+      if (siblingPool) {
+        const siblings = Array.from(siblingPool).filter(
+          (child): child is Element => child.tagName === current!.tagName
         );
-      };
+        const index = siblings.indexOf(current) + 1;
+        path.unshift(`${tag}:nth-of-type(${index})`);
+      } else {
+        path.unshift(tag);
+      }
 
-      /**
-       * Generate unique CSS selector for element
-       */
-      const generateSelector = (element: Element): string => {
-        if (element.id) return `#${element.id}`;
+      current = parent;
+    }
+
+    return path.join(" > ");
+  };
+
+  /**
+   * Generate a selector Playwright can resolve, chaining through open
+   * shadow roots with `>>` (each segment is queried inside the previous host)
+   */
+  const generateSelector = (element: Element): string => {
+    const root = element.getRootNode();
+    if (root instanceof ShadowRoot) {
+      return `${generateSelector(root.host)} >> ${generateScopedSelector(
+        element,
+        root
+      )}`;
+    }
+    return generateScopedSelector(element, document);
+  };
+
+  /**
+   * Children as rendered: shadow root content replaces light DOM, and
+   * <slot> elements are flattened into their assigned (or fallback) elements
+   */
+  const getComposedChildren = (el: Element): Element[] =>
+    getComposedChildNodes(el).filter(
+      (child): child is Element => child.nodeType === Node.ELEMENT_NODE
+    );
 
-        const classes = Array.from(element.classList).filter(
-          (c) => c && !c.includes(" ")
+  /**
+   * Same flattening as getComposedChildren, but keeping text nodes in order
+   */
+  const getComposedChildNodes = (el: Element): Node[] => {
+    const source = el.shadowRoot ? el.shadowRoot.childNodes : el.childNodes;
+    const result: Node[] = [];
+
+    for (const child of Array.from(source)) {
+      if (child instanceof HTMLSlotElement) {
+        const assigned = child.assignedNodes({ flatten: true });
+        result.push(
+          ...(assigned.length > 0 ? assigned : getComposedChildNodes(child))
         );
-        if (classes.length > 0) {
-          const selector = `.${classes[0]}`;
-          // Check if unique
-          if (document.querySelectorAll(selector).length === 1) {
-            return selector;
-          }
-        }
+      } else if (
+        child.nodeType === Node.ELEMENT_NODE ||
+        child.nodeType === Node.TEXT_NODE
+      ) {
+        result.push(child);
+      }
+    }
 
-        // Build path
-        const path: string[] = [];
-        let current: Element | null = element;
-
-        while (current && current !== document.body) {
-          const tag = current.tagName.toLowerCase();
-          const parent: Element | null = current.parentElement;
-
-          if (parent) {
-            const siblings = Array.from(parent.children).filter(
-              (child): child is Element => child.tagName === current!.tagName
-            );
-            const index = siblings.indexOf(current) + 1;
-            path.unshift(`${tag}:nth-of-type(${index})`);
-          } else {
-            path.unshift(tag);
-          }
+    return result;
+  };
 
-          current = parent;
+  /**
+   * Text as rendered, following shadow roots and slotted text nodes
+   */
+  const getComposedText = (el: Element): string => {
+    const source = el.shadowRoot ? el.shadowRoot.childNodes : el.childNodes;
+    let text = "";
+
+    const appendNode = (child: Node) => {
+      if (child instanceof HTMLSlotElement) {
+        const assigned = child.assignedNodes({ flatten: true });
+        if (assigned.length > 0) {
+          assigned.forEach(appendNode);
+        } else {
+          text += getComposedText(child);
         }
+      } else if (child.nodeType === Node.TEXT_NODE) {
+        text += child.textContent || "";
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        text += getComposedText(child as Element);
+      }
+    };
 
-        return path.join(" > ");
-      };
+    Array.from(source).forEach(appendNode);
+    return text;
+  };
 
-      const nodes: any[] = [];
-      const valueFrequency = new Map();
-      const cssVars = getCSSVariables();
+  /**
+   * Resolve a selector the way generateSelector builds them: each `>>`
+   * segment is queried inside the shadow root of the previous match
+   */
+  const querySelectorComposed = (selector: string): Element | null => {
+    let scope: Document | ShadowRoot = document;
+    let match: Element | null = null;
+
+    for (const segment of selector.split(">>").map((s) => s.trim())) {
+      match = scope.querySelector(segment);
+      if (!match) return null;
+      scope = match.shadowRoot || scope;
+    }
 
-      const elements = document.querySelectorAll("*");
-      const nodeMap = new Map();
+    return match;
+  };
 
-      // First pass: Create nodes
-      for (let i = 0; i < elements.length; i++) {
-        const el = elements[i] as HTMLElement;
-        const rect = el.getBoundingClientRect();
+  const getComposedParent = (el: Element): Element | null => {
+    if (el.assignedSlot) return el.assignedSlot;
+    if (el.parentElement) return el.parentElement;
+    const root = el.getRootNode();
+    return root instanceof ShadowRoot ? root.host : null;
+  };
 
-        // Skip zero-size and invisible elements
-        if (rect.width === 0 || rect.height === 0) continue;
+  const isComposedDescendant = (el: Element, ancestor: Element) => {
+    for (let current = getComposedParent(el); current; ) {
+      if (current === ancestor) return true;
+      current = getComposedParent(current);
+    }
+    return false;
+  };
 
-        const styles = getComputedStyle(el);
-        if (styles.display === "none" || styles.visibility === "hidden")
-          continue;
+  /**
+   * Inline formatting contexts: elements whose rendered content is only text
+   * and plain inline elements (`<p>Hello <b>world</b> <a>link</a></p>`) are
+   * emitted as one TEXT node with styled ranges instead of a FRAME per span
+   */
+  const nonTextInlineTags = new Set([
+    "img", "svg", "canvas", "video", "iframe", "input", "textarea",
+    "select", "button", "object", "embed", "picture",
+  ]);
+
+  const hasBoxDecoration = (styles: CSSStyleDeclaration) =>
+    styles.backgroundColor !== "rgba(0, 0, 0, 0)" ||
+    styles.backgroundImage !== "none" ||
+    ["top", "right", "bottom", "left"].some(
+      (side) =>
+        styles.getPropertyValue(`border-${side}-style`) !== "none" &&
+        parseFloat(styles.getPropertyValue(`border-${side}-width`)) > 0
+    );
 
-        const nodeId = generateId();
-        nodeMap.set(el, nodeId);
+  const isInlineTextRoot = (el: Element, children: Element[]): boolean => {
+    if (children.length === 0) return false;
+
+    const onlyInlineText = (kids: Element[]): boolean =>
+      kids.every((child) => {
+        if (child.tagName === "BR") return true;
+        if (nonTextInlineTags.has(child.tagName.toLowerCase())) return false;
+        const styles = getComputedStyle(child);
+        if (styles.display === "none") return true;
+        if (styles.display !== "inline" || hasBoxDecoration(styles)) return false;
+        return onlyInlineText(getComposedChildren(child));
+      });
 
-        const styleData = extractAllStyles(styles);
+    return onlyInlineText(children) && getComposedText(el).trim().length > 0;
+  };
 
-        // Track value frequency for token generation
-        if (styleData.backgroundColor) {
-          valueFrequency.set(
-            styleData.backgroundColor,
-            (valueFrequency.get(styleData.backgroundColor) || 0) + 1
-          );
-        }
-        if (styleData.color) {
-          valueFrequency.set(
-            styleData.color,
-            (valueFrequency.get(styleData.color) || 0) + 1
-          );
-        }
+  /**
+   * Flatten an inline formatting context into its text (whitespace collapsed
+   * like the browser does) and the runs that differ from the root's styling
+   */
+  const collectTextRuns = (root: Element) => {
+    const rootStyles = getComputedStyle(root);
+    const collapse = !/^(pre|break-spaces)/.test(rootStyles.whiteSpace);
+    const runs: { start: number; end: number; owner: Element }[] = [];
+    let text = "";
+
+    const append = (value: string, owner: Element) => {
+      let chunk = collapse ? value.replace(/\s+/g, " ") : value;
+      if (collapse && chunk.startsWith(" ") && (text === "" || /[ \n]$/.test(text))) {
+        chunk = chunk.slice(1);
+      }
+      if (!chunk) return;
+      runs.push({ start: text.length, end: text.length + chunk.length, owner });
+      text += chunk;
+    };
 
-        const pattern = detectComponentPattern(el, styles);
-
-        // Image handling
-        let imageData = null;
-        if (el.tagName === "IMG") {
-          const img = el as HTMLImageElement;
-          imageData = {
-            url: img.src,
-            alt: img.alt,
-            naturalWidth: img.naturalWidth,
-            naturalHeight: img.naturalHeight,
-            needsProxy: !img.src.startsWith("data:"),
-          };
+    const visit = (node: Node, owner: Element) => {
+      if (node instanceof HTMLSlotElement) {
+        const assigned = node.assignedNodes({ flatten: true });
+        (assigned.length > 0 ? assigned : Array.from(node.childNodes)).forEach(
+          (child) => visit(child, node)
+        );
+      } else if (node.nodeType === Node.TEXT_NODE) {
+        append(node.textContent || "", owner);
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        const el = node as Element;
+        if (el.tagName === "BR") {
+          // Swap a collapsed trailing space for the break so offsets stay valid
+          text = text.endsWith(" ") ? text.slice(0, -1) + "\n" : text + "\n";
+          return;
         }
+        if (getComputedStyle(el).display === "none") return;
+        Array.from(el.shadowRoot ? el.shadowRoot.childNodes : el.childNodes).forEach(
+          (child) => visit(child, el)
+        );
+      }
+    };
 
-        // PHASE 4: SVG handling
-        let svgData = null;
-        if (el.tagName === "SVG") {
-          svgData = {
-            content: el.outerHTML,
-            viewBox: el.getAttribute("viewBox"),
-            width: el.getAttribute("width"),
-            height: el.getAttribute("height"),
-          };
-        }
+    Array.from(root.shadowRoot ? root.shadowRoot.childNodes : root.childNodes).forEach(
+      (child) => visit(child, root)
+    );
 
-        // PHASE 6: Pseudo-elements
-        const pseudoElements = opts.capturePseudoElements
-          ? extractPseudoElements(el)
-          : [];
-
-        // Extract data attributes
-        const dataAttributes: Record<string, string> = {};
-        for (let j = 0; j < el.attributes.length; j++) {
-          const attr = el.attributes[j];
-          if (attr.name.startsWith("data-")) {
-            dataAttributes[attr.name] = attr.value;
-          }
-        }
+    if (collapse && text.endsWith(" ")) {
+      text = text.slice(0, -1);
+    }
 
-        // Calculate parent-relative coordinates
-        const parentEl = el.parentElement;
-        const parentRect = parentEl ? parentEl.getBoundingClientRect() : null;
-
-        const node = {
-          id: nodeId,
-          type:
-            el.tagName === "IMG"
-              ? "IMAGE"
-              : el.tagName === "SVG"
-              ? "SVG"
-              : el.tagName === "CANVAS"
-              ? "CANVAS"
-              : el.tagName === "VIDEO"
-              ? "VIDEO"
-              : el.children.length > 0
-              ? "FRAME"
-              : "TEXT",
-          tag: el.tagName.toLowerCase(),
-          rect: {
-            // ✅ Absolute (viewport-relative) coordinates
-            // Figma handles parent-relative positioning automatically via appendChild
-            x: rect.x,
-            y: rect.y,
-            width: rect.width,
-            height: rect.height,
-          },
-          styles: styleData,
-          text: el.children.length === 0 ? el.textContent?.trim() : undefined,
-          image: imageData,
-          svg: svgData,
-          pseudoElements:
-            pseudoElements.length > 0 ? pseudoElements : undefined,
-          parent: el.parentElement ? nodeMap.get(el.parentElement) : undefined,
-          children: [],
-          componentHint: pattern,
-          selector: generateSelector(el),
-          needsScreenshot: opts.screenshotComplexOnly
-            ? needsScreenshot(styles, el)
-            : true,
-          // Naming engine context data
-          domId: el.id || undefined,
-          classList:
-            el.classList.length > 0 ? Array.from(el.classList) : undefined,
-          role: el.getAttribute("role") || undefined,
-          ariaLabel: el.getAttribute("aria-label") || undefined,
-          dataAttributes:
-            Object.keys(dataAttributes).length > 0 ? dataAttributes : undefined,
-        };
+    // text-decoration is not inherited but still paints on descendants
+    const decorationOf = (el: Element) => {
+      const lines = new Set<string>();
+      for (let current: Element | null = el; current; ) {
+        const line = getComputedStyle(current).textDecorationLine;
+        if (line && line !== "none") line.split(" ").forEach((l) => lines.add(l));
+        current = current === root ? null : getComposedParent(current);
+      }
+      return lines.size > 0 ? Array.from(lines).join(" ") : undefined;
+    };
 
-        nodes.push(node);
+    const styleCache = new Map<Element, any>();
+    const styleOf = (el: Element) => {
+      if (!styleCache.has(el)) {
+        const styles = getComputedStyle(el);
+        const anchor = el.closest("a");
+        styleCache.set(el, {
+          styles: {
+            fontFamily: styles.fontFamily,
+            fontWeight: styles.fontWeight,
+            fontStyle: styles.fontStyle,
+            fontSize: styles.fontSize,
+            color: styles.color,
+            textDecoration: decorationOf(el),
+          },
+          href:
+            anchor && (anchor === root || root.contains(anchor))
+              ? (anchor as HTMLAnchorElement).href || undefined
+              : undefined,
+        });
       }
+      return styleCache.get(el);
+    };
 
-      // Second pass: Build parent-child relationships
-      for (let i = 0; i < elements.length; i++) {
-        const el = elements[i];
-        const nodeId = nodeMap.get(el);
-        if (!nodeId) continue;
+    const baseKey = JSON.stringify({ styles: styleOf(root).styles });
+    const ranges: any[] = [];
 
-        const node = nodes.find((n) => n.id === nodeId);
-        if (!node) continue;
+    for (const run of runs) {
+      const end = Math.min(run.end, text.length);
+      if (end <= run.start) continue;
 
-        const childNodes = Array.from(el.children)
-          .map((child) => nodeMap.get(child))
-          .filter((id) => id);
+      const style = styleOf(run.owner);
+      const key = JSON.stringify(style);
+      if (key === baseKey) continue;
 
-        node.children = childNodes;
+      const previous = ranges[ranges.length - 1];
+      if (previous && previous.end === run.start && previous.key === key) {
+        previous.end = end;
+      } else {
+        ranges.push({ start: run.start, end, key, ...style });
       }
+    }
 
-      // Generate tokens
-      const generateImplicitTokens = (frequency: Map<string, number>) => {
-        const tokens: Record<string, string> = {};
-        let colorIndex = 0;
-        let spaceIndex = 0;
-
-        frequency.forEach((count, value) => {
-          if (count >= 3) {
-            if (value.includes("rgb") || value.startsWith("#")) {
-              tokens[value] = `color-${++colorIndex}`;
-            } else if (value.includes("px")) {
-              tokens[value] = `space-${++spaceIndex}`;
-            }
-          }
-        });
+    return {
+      text,
+      ranges: ranges.map(({ key, href, ...range }) =>
+        href ? { ...range, href } : range
+      ),
+    };
+  };
 
-        return tokens;
-      };
+  /**
+   * Split a raw DOM text node into one fragment per rendered line, measured
+   * with Range.getClientRects(). Characters are grouped by the line box they
+   * land in, so text that wraps yields a correctly placed fragment per line.
+   */
+  const MAX_MEASURED_TEXT_LENGTH = 5000;
+  const measureTextFragments = (textNode: Text, collapse: boolean) => {
+    const raw = textNode.textContent || "";
+    const normalize = (value: string) =>
+      (collapse ? value.replace(/\s+/g, " ") : value).trim();
+    const range = document.createRange();
+    range.selectNodeContents(textNode);
+
+    const lineRects = Array.from(range.getClientRects()).filter(
+      (r) => r.width > 0 && r.height > 0
+    );
+    if (lineRects.length === 0) return [];
+
+    if (lineRects.length === 1 || raw.length > MAX_MEASURED_TEXT_LENGTH) {
+      const box = range.getBoundingClientRect();
+      return [
+        {
+          text: normalize(raw),
+          rect: { x: box.x, y: box.y, width: box.width, height: box.height },
+        },
+      ];
+    }
 
-      const inferDesignSystem = (nodes: any[]) => {
-        const spacings = new Set<number>();
-        const radii = new Set<number>();
-        const colors = new Set<string>();
-        const fontSizes = new Set<number>();
-        const fontWeights = new Set<string>();
-
-        nodes.forEach((node) => {
-          if (node.styles.padding) {
-            const values = node.styles.padding.match(/\d+/g);
-            if (values)
-              values.forEach((v: string) => spacings.add(parseInt(v)));
-          }
-          if (node.styles.gap) {
-            const value = node.styles.gap.match(/\d+/);
-            if (value) spacings.add(parseInt(value[0]));
-          }
-          if (node.styles.borderRadius) {
-            const values = node.styles.borderRadius.match(/\d+/g);
-            if (values) values.forEach((v: string) => radii.add(parseInt(v)));
-          }
-          if (node.styles.backgroundColor)
-            colors.add(node.styles.backgroundColor);
-          if (node.styles.color) colors.add(node.styles.color);
-          if (node.styles.fontSize) {
-            const size = parseFloat(node.styles.fontSize);
-            if (!isNaN(size)) fontSizes.add(size);
-          }
-          if (node.styles.fontWeight) fontWeights.add(node.styles.fontWeight);
+    const lines: {
+      start: number;
+      end: number;
+      left: number;
+      top: number;
+      right: number;
+      bottom: number;
+    }[] = [];
+
+    for (let i = 0; i < raw.length; i++) {
+      range.setStart(textNode, i);
+      range.setEnd(textNode, i + 1);
+      const charRect = Array.from(range.getClientRects()).find(
+        (r) => r.height > 0
+      );
+      // Collapsed whitespace has no box
+      if (!charRect || charRect.width === 0) continue;
+
+      const line = lines[lines.length - 1];
+      const sameLine =
+        line &&
+        Math.abs(charRect.top - line.top) <
+          Math.min(charRect.height, line.bottom - line.top) / 2;
+
+      if (sameLine) {
+        line.end = i + 1;
+        line.left = Math.min(line.left, charRect.left);
+        line.right = Math.max(line.right, charRect.right);
+        line.bottom = Math.max(line.bottom, charRect.bottom);
+      } else {
+        lines.push({
+          start: i,
+          end: i + 1,
+          left: charRect.left,
+          top: charRect.top,
+          right: charRect.right,
+          bottom: charRect.bottom,
         });
+      }
+    }
 
-        return {
-          spacing: Array.from(spacings).sort((a, b) => a - b),
-          radii: Array.from(radii).sort((a, b) => a - b),
-          colors: Array.from(colors),
-          fontSizes: Array.from(fontSizes).sort((a, b) => a - b),
-          fontWeights: Array.from(fontWeights).sort(),
-        };
+    return lines
+      .map((line) => ({
+        text: normalize(raw.slice(line.start, line.end)),
+        rect: {
+          x: line.left,
+          y: line.top,
+          width: line.right - line.left,
+          height: line.bottom - line.top,
+        },
+      }))
+      .filter((fragment) => fragment.text.length > 0);
+  };
+
+  const textStyleKeys = [
+    "color", "fontSize", "fontWeight", "fontFamily", "fontStyle", "lineHeight",
+    "letterSpacing", "textTransform", "textDecoration", "textShadow",
+  ];
+
+  const nodes: any[] = [];
+  const valueFrequency = new Map();
+  const cssVars = getCSSVariables();
+
+  // Walk the composed tree so open shadow roots and slotted content are included
+  const elements: Element[] = [];
+  const composedParents = new Map<Element, Element | null>();
+  const composedChildren = new Map<Element, Element[]>();
+  const inlineTextRoots = new Set<Element>();
+  const walkComposedTree = (el: Element, parent: Element | null) => {
+    // <option>s and textarea text are captured through formState instead
+    let children =
+      el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement
+        ? []
+        : getComposedChildren(el);
+    if (isInlineTextRoot(el, children)) {
+      // Inline descendants become ranges of this node rather than nodes of their own
+      inlineTextRoots.add(el);
+      children = [];
+    }
+    elements.push(el);
+    composedParents.set(el, parent);
+    composedChildren.set(el, children);
+    children.forEach((child) => walkComposedTree(child, el));
+  };
+
+  // Subtree captures start from the matched roots, skipping any root nested in another
+  let rootElements: Element[] = [document.documentElement];
+  let rootRect: { x: number; y: number; width: number; height: number } | null =
+    null;
+  if (opts.rootSelectors && opts.rootSelectors.length > 0) {
+    const matched = opts.rootSelectors.map((selector) => {
+      const el = querySelectorComposed(selector);
+      if (!el) {
+        throw new Error(`rootSelector matched no element: ${selector}`);
+      }
+      return el;
+    });
+    rootElements = matched.filter(
+      (el, index) =>
+        matched.indexOf(el) === index &&
+        !matched.some((other) => other !== el && isComposedDescendant(el, other))
+    );
+
+    const boxes = rootElements
+      .map((el) => el.getBoundingClientRect())
+      .filter((box) => box.width > 0 && box.height > 0);
+    if (boxes.length === 0) {
+      throw new Error(
+        `rootSelector matched no visible element: ${opts.rootSelectors.join(", ")}`
+      );
+    }
+    const left = Math.min(...boxes.map((box) => box.left));
+    const top = Math.min(...boxes.map((box) => box.top));
+    rootRect = {
+      x: left,
+      y: top,
+      width: Math.max(...boxes.map((box) => box.right)) - left,
+      height: Math.max(...boxes.map((box) => box.bottom)) - top,
+    };
+  }
+  rootElements.forEach((root) => walkComposedTree(root, null));
+
+  const nodeMap = new Map();
+  const nodesById = new Map<string, any>();
+  // Raw DOM text nodes sitting next to element children → fragment node ids
+  const textNodeIds = new Map<Node, string[]>();
+
+  // First pass: Create nodes
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i] as HTMLElement;
+    const rect = el.getBoundingClientRect();
+
+    // Skip zero-size and invisible elements
+    if (rect.width === 0 || rect.height === 0) continue;
+
+    const styles = getComputedStyle(el);
+    if (styles.display === "none" || styles.visibility === "hidden")
+      continue;
+
+    const nodeId = getElementId(el);
+    nodeMap.set(el, nodeId);
+
+    const styleData = extractAllStyles(styles);
+
+    // Track value frequency for token generation
+    if (styleData.backgroundColor) {
+      valueFrequency.set(
+        styleData.backgroundColor,
+        (valueFrequency.get(styleData.backgroundColor) || 0) + 1
+      );
+    }
+    if (styleData.color) {
+      valueFrequency.set(
+        styleData.color,
+        (valueFrequency.get(styleData.color) || 0) + 1
+      );
+    }
+
+    const pattern = detectComponentPattern(el, styles);
+
+    // Image handling
+    let imageData = null;
+    if (el.tagName === "IMG") {
+      const img = el as HTMLImageElement;
+      imageData = {
+        url: img.src,
+        alt: img.alt,
+        naturalWidth: img.naturalWidth,
+        naturalHeight: img.naturalHeight,
+        needsProxy: !img.src.startsWith("data:"),
       };
+    }
 
-      return {
-        nodes,
-        tokens: {
-          explicit: cssVars,
-          implicit: generateImplicitTokens(valueFrequency),
-          inferred: inferDesignSystem(nodes),
-        },
-        viewport: {
-          width: window.innerWidth,
-          height: window.innerHeight,
-        },
+    // PHASE 4: SVG handling
+    let svgData = null;
+    if (el.tagName === "SVG") {
+      svgData = {
+        content: el.outerHTML,
+        viewBox: el.getAttribute("viewBox"),
+        width: el.getAttribute("width"),
+        height: el.getAttribute("height"),
       };
-    },
-    { capturePseudoElements, screenshotComplexOnly }
-  );
+    }
 
-  // ✅✅✅ CORRECT PLACEMENT: Export AFTER page.evaluate() completes ✅✅✅
-  try {
-    const outputPath = path.join(process.cwd(), "extraction-sample.json");
-    fs.writeFileSync(outputPath, JSON.stringify(data, null, 2));
-    console.log("✅ ✅ ✅ EXTRACTION SAMPLE SAVED ✅ ✅ ✅");
-    console.log("📁 File location:", outputPath);
-    console.log("\n=== EXTRACTION DIAGNOSTIC ===");
-    console.log("Structure type:", typeof data);
-    console.log("Has nodes:", !!data.nodes);
-    console.log("Node count:", data.nodes?.length || 0);
-    console.log("Has viewport:", !!data.viewport);
-    console.log("Has tokens:", !!data.tokens);
-
-    if (data.nodes && data.nodes.length > 0) {
-      const firstNode = data.nodes[0];
-      console.log("\nFirst node structure:");
-      console.log("- Type:", firstNode.type);
-      console.log("- Tag:", firstNode.tag);
-      console.log("- Has children:", !!firstNode.children);
-      console.log("- Children count:", firstNode.children?.length || 0);
-      console.log("- Rect:", firstNode.rect);
-      console.log("- Has styles:", !!firstNode.styles);
-      console.log("- Node keys:", Object.keys(firstNode).join(", "));
-
-      console.log("\nSample node (first 500 chars):");
-      console.log(JSON.stringify(firstNode, null, 2).slice(0, 500) + "...");
-    }
-    console.log("=== END DIAGNOSTIC ===\n");
-  } catch (error) {
-    console.error("❌ Failed to save extraction sample:", error);
-  }
+    const formState = extractFormState(el, styles);
+
+    // PHASE 6: Pseudo-elements
+    const pseudoElements = opts.capturePseudoElements
+      ? extractPseudoElements(el)
+      : [];
+
+    // Extract data attributes
+    const dataAttributes: Record<string, string> = {};
+    for (let j = 0; j < el.attributes.length; j++) {
+      const attr = el.attributes[j];
+      if (attr.name.startsWith("data-")) {
+        dataAttributes[attr.name] = attr.value;
+      }
+    }
+
+    const renderedChildren = composedChildren.get(el) || [];
+    const composedParent = composedParents.get(el);
+    const inlineText = inlineTextRoots.has(el) ? collectTextRuns(el) : null;
+
+    const node = {
+      id: nodeId,
+      type:
+        el.tagName === "IMG"
+          ? "IMAGE"
+          : el.tagName === "SVG"
+          ? "SVG"
+          : el.tagName === "CANVAS"
+          ? "CANVAS"
+          : el.tagName === "VIDEO"
+          ? "VIDEO"
+          : renderedChildren.length > 0 || formState
+          ? "FRAME"
+          : "TEXT",
+      tag: el.tagName.toLowerCase(),
+      rect: {
+        // ✅ Absolute (viewport-relative) coordinates
+        // Figma handles parent-relative positioning automatically via appendChild
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+      },
+      styles: styleData,
+      text: inlineText
+        ? inlineText.text
+        : renderedChildren.length === 0 && !formState
+        ? getComposedText(el).trim()
+        : undefined,
+      textRanges:
+        inlineText && inlineText.ranges.length > 0
+          ? inlineText.ranges
+          : undefined,
+      image: imageData,
+      svg: svgData,
+      pseudoElements:
+        pseudoElements.length > 0 ? pseudoElements : undefined,
+      formState,
+      parent: composedParent ? nodeMap.get(composedParent) : undefined,
+      children: [],
+      componentHint: pattern,
+      selector: generateSelector(el),
+      needsScreenshot: opts.screenshotComplexOnly
+        ? needsScreenshot(styles, el) || isBrowserDrawnControl(formState)
+        : true,
+      // Naming engine context data
+      domId: el.id || undefined,
+      classList:
+        el.classList.length > 0 ? Array.from(el.classList) : undefined,
+      role: el.getAttribute("role") || undefined,
+      ariaLabel: el.getAttribute("aria-label") || undefined,
+      dataAttributes:
+        Object.keys(dataAttributes).length > 0 ? dataAttributes : undefined,
+    };
 
-  // PHASE 3: Capture element screenshots
-  let screenshots: Record<string, string> = {};
-  if (captureScreenshots) {
-    console.log("Capturing element screenshots...");
-    const nodesToScreenshot = screenshotComplexOnly
-      ? data.nodes.filter((n: any) => n.needsScreenshot)
-      : data.nodes;
+    nodes.push(node);
+    nodesById.set(nodeId, node);
+
+    // Mixed content (`Price: <span>$10</span>`): keep the bare text as TEXT nodes
+    if (renderedChildren.length > 0) {
+      const collapse = !/^(pre|break-spaces)/.test(styles.whiteSpace);
+      const textStyles: Record<string, any> = {};
+      textStyleKeys.forEach((key) => {
+        const value = (styleData as Record<string, any>)[key];
+        if (value !== undefined) textStyles[key] = value;
+      });
+
+      let textFragmentIndex = 0;
+      getComposedChildNodes(el).forEach((child) => {
+        if (child.nodeType !== Node.TEXT_NODE || !child.textContent?.trim()) {
+          return;
+        }
+
+        const ids = measureTextFragments(child as Text, collapse).map(
+          (fragment) => {
+            const textNode = {
+              id:
+                opts.idScheme === "random"
+                  ? generateId()
+                  : claimId(`${nodeId}~t${textFragmentIndex++}`),
+              type: "TEXT",
+              tag: "#text",
+              rect: fragment.rect,
+              styles: { ...textStyles },
+              text: fragment.text,
+              parent: nodeId,
+              children: [],
+              needsScreenshot: false,
+            };
+            nodes.push(textNode);
+            nodesById.set(textNode.id, textNode);
+            return textNode.id;
+          }
+        );
 
-    screenshots = await captureElementScreenshots(page, nodesToScreenshot);
-    console.log(`Captured ${Object.keys(screenshots).length} screenshots`);
+        if (ids.length > 0) textNodeIds.set(child, ids);
+      });
+    }
   }
 
-  // PHASE 6: Capture states (hover, focus, active)
-  let states: Record<string, any> = {};
-  if (captureStates) {
-    console.log("Capturing interaction states...");
-    states = await captureInteractionStates(
-      page,
-      data.nodes.filter(
-        (n: any) => n.componentHint === "button" || n.componentHint === "input"
-      )
-    );
-    console.log(`Captured states for ${Object.keys(states).length} elements`);
+  // Second pass: Build parent-child relationships
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i];
+    const nodeId = nodeMap.get(el);
+    if (!nodeId) continue;
+
+    const node = nodesById.get(nodeId);
+    if (!node) continue;
+
+    const childNodes = (composedChildren.get(el) || [])
+      .map((child) => nodeMap.get(child))
+      .filter((id) => id);
+
+    // Interleave text fragments with element children in DOM order
+    node.children = getComposedChildNodes(el).some((child) =>
+      textNodeIds.has(child)
+    )
+      ? getComposedChildNodes(el).flatMap((child) =>
+          child.nodeType === Node.TEXT_NODE
+            ? textNodeIds.get(child) || []
+            : nodeMap.get(child) || []
+        )
+      : childNodes;
   }
 
-  // SEMANTIC NAMING PASS: Add meaningful names to extracted nodes
-  console.log("Applying semantic naming pass...");
-  const nodesWithNames = applySemanticNaming(data.nodes);
+  // Generate tokens
+  const generateImplicitTokens = (frequency: Map<string, number>) => {
+    const tokens: Record<string, string> = {};
+    let colorIndex = 0;
+    let spaceIndex = 0;
+
+    frequency.forEach((count, value) => {
+      if (count >= 3) {
+        if (value.includes("rgb") || value.startsWith("#")) {
+          tokens[value] = `color-${++colorIndex}`;
+        } else if (value.includes("px")) {
+          tokens[value] = `space-${++spaceIndex}`;
+        }
+      }
+    });
+
+    return tokens;
+  };
+
+  const inferDesignSystem = (nodes: any[]) => {
+    const spacings = new Set<number>();
+    const radii = new Set<number>();
+    const colors = new Set<string>();
+    const fontSizes = new Set<number>();
+    const fontWeights = new Set<string>();
+
+    nodes.forEach((node) => {
+      if (node.styles.padding) {
+        const values = node.styles.padding.match(/\d+/g);
+        if (values)
+          values.forEach((v: string) => spacings.add(parseInt(v)));
+      }
+      if (node.styles.gap) {
+        const value = node.styles.gap.match(/\d+/);
+        if (value) spacings.add(parseInt(value[0]));
+      }
+      if (node.styles.borderRadius) {
+        const values = node.styles.borderRadius.match(/\d+/g);
+        if (values) values.forEach((v: string) => radii.add(parseInt(v)));
+      }
+      if (node.styles.backgroundColor)
+        colors.add(node.styles.backgroundColor);
+      if (node.styles.color) colors.add(node.styles.color);
+      if (node.styles.fontSize) {
+        const size = parseFloat(node.styles.fontSize);
+        if (!isNaN(size)) fontSizes.add(size);
+      }
+      if (node.styles.fontWeight) fontWeights.add(node.styles.fontWeight);
+    });
 
-  await browser.close();
+    return {
+      spacing: Array.from(spacings).sort((a, b) => a - b),
+      radii: Array.from(radii).sort((a, b) => a - b),
+      colors: Array.from(colors),
+      fontSizes: Array.from(fontSizes).sort((a, b) => a - b),
+      fontWeights: Array.from(fontWeights).sort(),
+    };
+  };
 
   return {
-    ...data,
-    nodes: nodesWithNames,
-    fonts,
-    screenshots,
-    states,
-    assets: [],
-    loadInfo,
+    nodes,
+    tokens: {
+      explicit: cssVars,
+      implicit: generateImplicitTokens(valueFrequency),
+      inferred: inferDesignSystem(nodes),
+    },
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+    },
+    root: rootRect
+      ? { selectors: opts.rootSelectors || [], rect: rootRect }
+      : undefined,
   };
 }
 
+/**
+ * Shift every rect so the captured root's top-left sits at 0,0
+ */
+function rebaseRects(
+  nodes: any[],
+  origin: { x: number; y: number }
+): void {
+  for (const node of nodes) {
+    if (!node.rect) continue;
+    node.rect.x -= origin.x;
+    node.rect.y -= origin.y;
+  }
+}
+
 async function waitForFullyLoaded(page: Page): Promise<LoadInfo> {
   return page.evaluate(async () => {
     const loadStart = Date.now();
@@ -1154,22 +2300,144 @@ async function extractFonts(
 }
 
 /**
- * PHASE 3: Capture screenshots of specific elements
+ * Extract every reachable child frame with the same DOM pipeline and attach
+ * its nodes under the owning <iframe> node, in parent-document coordinates.
+ * Frames that cannot be read fall back to a screenshot of the iframe element.
  */
-async function captureElementScreenshots(
+async function extractIframes(
+  frame: Frame,
+  frameNodes: any[],
+  options: DOMExtractionOptions,
+  loadInfo: LoadInfo,
+  framePath: string[] = [],
+  depth = 0
+): Promise<{ nodes: any[]; screenshots: Record<string, string> }> {
+  const nodes: any[] = [];
+  const screenshots: Record<string, string> = {};
+  const iframeNodes = frameNodes.filter(
+    (n) => n.tag === "iframe" || n.tag === "frame"
+  );
+
+  for (const iframeNode of iframeNodes) {
+    const element = await frame.$(iframeNode.selector).catch(() => null);
+    if (!element) {
+      loadInfo.errors.push({
+        phase: "iframes",
+        message: `Iframe element not found: ${iframeNode.selector}`,
+      });
+      continue;
+    }
+
+    try {
+      const childFrame = await element.contentFrame();
+      if (!childFrame) {
+        throw new Error("frame content is not accessible");
+      }
+
+      // Offset of the iframe's content box within the parent document
+      const offset = await element.evaluate((el) => {
+        const rect = el.getBoundingClientRect();
+        const styles = getComputedStyle(el);
+        return {
+          x:
+            rect.x +
+            parseFloat(styles.borderLeftWidth || "0") +
+            parseFloat(styles.paddingLeft || "0"),
+          y:
+            rect.y +
+            parseFloat(styles.borderTopWidth || "0") +
+            parseFloat(styles.paddingTop || "0"),
+        };
+      });
+
+      const childData = await childFrame.evaluate(extractDOMData, {
+        ...options,
+        idPrefix: iframeNode.id,
+      });
+      const childPath = [...framePath, iframeNode.selector];
+
+      childData.nodes.forEach((node: any) => {
+        node.rect.x += offset.x;
+        node.rect.y += offset.y;
+        node.framePath = childPath;
+        if (!node.parent) {
+          node.parent = iframeNode.id;
+          iframeNode.children.push(node.id);
+        }
+      });
+
+      iframeNode.type = "FRAME";
+      iframeNode.text = undefined;
+      nodes.push(...childData.nodes);
+
+      if (depth < MAX_IFRAME_DEPTH) {
+        const nested = await extractIframes(
+          childFrame,
+          childData.nodes,
+          options,
+          loadInfo,
+          childPath,
+          depth + 1
+        );
+        nodes.push(...nested.nodes);
+        Object.assign(screenshots, nested.screenshots);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const src = (await element.getAttribute("src").catch(() => null)) || "";
+      loadInfo.errors.push({
+        phase: "iframes",
+        message: `Cross-origin or unreadable iframe ${src || iframeNode.selector}: ${message} (using screenshot fallback)`,
+      });
+
+      try {
+        const screenshot = await element.screenshot({ type: "png" });
+        screenshots[iframeNode.id] = screenshot.toString("base64");
+        iframeNode.needsScreenshot = true;
+      } catch (e) {
+        // Fallback screenshot failed, leave as empty frame
+      }
+    }
+  }
+
+  return { nodes, screenshots };
+}
+
+/**
+ * Resolve a node's element handle, entering any iframes on its frame path
+ */
+async function resolveElement(page: Page, node: any) {
+  // Raw text fragments have no element of their own
+  if (!node.selector) return null;
+
+  let frame: Frame | null = page.mainFrame();
+
+  for (const iframeSelector of node.framePath || []) {
+    const iframe: ElementHandle | null = await frame.$(iframeSelector);
+    frame = iframe ? await iframe.contentFrame() : null;
+    if (!frame) return null;
+  }
+
+  return frame.$(node.selector);
+}
+
+/**
+ * PHASE 3: Capture screenshots of specific elements, yielded a batch at a time
+ */
+async function* captureElementScreenshots(
   page: Page,
   nodes: any[]
-): Promise<Record<string, string>> {
-  const screenshots: Record<string, string> = {};
+): AsyncGenerator<Record<string, string>> {
   const batchSize = 10;
 
   for (let i = 0; i < nodes.length; i += batchSize) {
     const batch = nodes.slice(i, i + batchSize);
+    const screenshots: Record<string, string> = {};
 
     await Promise.all(
       batch.map(async (node) => {
         try {
-          const element = await page.$(node.selector);
+          const element = await resolveElement(page, node);
           if (element) {
             const screenshot = await element.screenshot({
               type: "png",
@@ -1183,29 +2451,30 @@ async function captureElementScreenshots(
       })
     );
 
+    yield screenshots;
+
     if (i + batchSize < nodes.length) {
       await new Promise((r) => setTimeout(r, 100));
     }
   }
-
-  return screenshots;
 }
 
 /**
- * PHASE 6: Capture interaction states
+ * PHASE 6: Screenshot interaction states by driving the real pointer and
+ * focus. Fallback for elements CDP can't force states on.
  */
-async function captureInteractionStates(
+async function captureStateScreenshots(
   page: Page,
   nodes: any[]
-): Promise<Record<string, any>> {
-  const states: Record<string, any> = {};
+): Promise<Record<string, IRStates>> {
+  const states: Record<string, IRStates> = {};
 
   for (const node of nodes) {
     try {
-      const element = await page.$(node.selector);
+      const element = await resolveElement(page, node);
       if (!element) continue;
 
-      const nodeStates: any = {};
+      const nodeStates: NonNullable<IRStates["screenshots"]> = {};
 
       // Hover state
       try {
@@ -1244,7 +2513,7 @@ async function captureInteractionStates(
       }
 
       if (Object.keys(nodeStates).length > 0) {
-        states[node.id] = nodeStates;
+        states[node.id] = { screenshots: nodeStates };
       }
     } catch (e) {
       // Failed to capture states
@@ -1394,6 +2663,7 @@ function applySemanticNaming(nodes: any[]): any[] {
           break;
         case "span":
         case "p":
+        case "#text":
           parts.push("text");
           break;
         case "img":
@@ -1529,34 +2799,82 @@ function applySemanticNaming(nodes: any[]): any[] {
   });
 }
 
-// Preset extraction modes
-export async function extractBasic(url: string) {
-  return extractComplete(url, {
+export type ExtractionMode = "basic" | "hybrid" | "maximum";
+
+// Preset extraction modes (overrides carry per-request options such as viewport)
+const MODE_OPTIONS: Record<ExtractionMode, ExtractionOptions> = {
+  basic: {
     captureFonts: false,
     captureScreenshots: false,
     captureStates: false,
     capturePseudoElements: false,
-  });
-}
-
-export async function extractHybrid(url: string) {
-  return extractComplete(url, {
+  },
+  hybrid: {
     captureFonts: true,
     captureScreenshots: true,
     screenshotComplexOnly: true,
     captureStates: false,
     capturePseudoElements: true,
-  });
-}
-
-export async function extractMaximum(url: string) {
-  return extractComplete(url, {
+  },
+  maximum: {
     captureFonts: true,
     captureScreenshots: true,
     screenshotComplexOnly: false,
     captureStates: true,
     capturePseudoElements: true,
-  });
+  },
+};
+
+export async function extractBasic(
+  url: string,
+  overrides: ExtractionOptions = {}
+) {
+  return extractComplete(url, { ...MODE_OPTIONS.basic, ...overrides });
+}
+
+export async function extractHybrid(
+  url: string,
+  overrides: ExtractionOptions = {}
+) {
+  return extractComplete(url, { ...MODE_OPTIONS.hybrid, ...overrides });
+}
+
+export async function extractMaximum(
+  url: string,
+  overrides: ExtractionOptions = {}
+) {
+  return extractComplete(url, { ...MODE_OPTIONS.maximum, ...overrides });
+}
+
+export async function extractWithMode(
+  url: string,
+  mode: string = "hybrid",
+  overrides: ExtractionOptions = {}
+) {
+  switch (mode) {
+    case "basic":
+      return extractBasic(url, overrides);
+    case "maximum":
+      return extractMaximum(url, overrides);
+    case "hybrid":
+    default:
+      return extractHybrid(url, overrides);
+  }
+}
+
+/**
+ * `extractWithMode` as it happens; see `streamExtraction`
+ */
+export function streamWithMode(
+  url: string,
+  mode: string = "hybrid",
+  overrides: ExtractionOptions = {}
+): AsyncGenerator<ExtractionEvent> {
+  const preset =
+    mode === "basic" || mode === "maximum"
+      ? MODE_OPTIONS[mode]
+      : MODE_OPTIONS.hybrid;
+  return streamExtraction(url, { ...preset, ...overrides });
 }
 
 // Backward compatibility
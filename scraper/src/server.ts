@@ -14,9 +14,29 @@ import cors from 'cors';
 import { WebSocket, WebSocketServer } from 'ws';
 import { createServer } from 'http';
 import net from 'net';
-import { extractBasic, extractHybrid, extractMaximum } from './scraper.js';
-import { StreamController } from './stream-controller.js';
-import type { IRNode } from '../../ir.js';
+import {
+  extractWithMode,
+  mergeViewportEvents,
+  streamViewports,
+  toExtractionEvents
+} from './scraper.js';
+import type {
+  ExtractionMode,
+  ExtractionOptions,
+  ViewportExtractionEvent
+} from './scraper.js';
+import { StreamController, resumeStream } from './stream-controller.js';
+import { browserPool } from './browser-pool.js';
+import { JobQueue } from './job-queue.js';
+import type { Job, JobContext } from './job-queue.js';
+import { CONFIG } from './config.js';
+import { CACHE_MODES, captureCache } from './capture-cache.js';
+import type { CacheMode, CacheStatus } from './capture-cache.js';
+import { resolveViewport } from './viewports.js';
+import type { ViewportInput } from './viewports.js';
+import { validateActions } from './actions.js';
+import { validateColorSchemes } from './color-schemes.js';
+import type { CaptureAuth, IdScheme, StreamControlMessage } from '../../ir.js';
 import fetch from 'node-fetch';
 
 const app = express();
@@ -83,7 +103,10 @@ app.get('/health', (req, res) => {
     status: 'OK',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
-    memory: process.memoryUsage()
+    memory: process.memoryUsage(),
+    browserPool: browserPool.getStats(),
+    jobs: jobQueue.getStats(),
+    cache: captureCache.getStats()
   });
 });
 
@@ -98,27 +121,22 @@ app.get('/screenshot', async (req, res) => {
   }
   
   try {
-    const { chromium } = await import('playwright');
-    const browser = await chromium.launch({ 
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox']
-    });
-    
-    const page = await browser.newPage({ 
-      viewport: { width: 1280, height: 720 } 
-    });
-    
-    await page.goto(url, { 
-      waitUntil: 'networkidle',
-      timeout: 30000 
-    });
-    
-    const screenshot = await page.screenshot({ 
-      type: 'png', 
-      fullPage: false 
-    });
-    
-    await browser.close();
+    const screenshot = await browserPool.withContext(
+      { viewport: { width: 1280, height: 720 } },
+      async (context) => {
+        const page = await context.newPage();
+
+        await page.goto(url, { 
+          waitUntil: 'networkidle',
+          timeout: 30000 
+        });
+
+        return page.screenshot({ 
+          type: 'png', 
+          fullPage: false 
+        });
+      }
+    );
     
     const base64 = screenshot.toString('base64');
     res.json({ screenshot: `data:image/png;base64,${base64}` });
@@ -132,36 +150,306 @@ app.get('/screenshot', async (req, res) => {
 });
 
 /**
- * Main scrape endpoint (HTTP)
+ * Validate `viewport` / `viewports` from a request. Throws on unknown devices
+ * or invalid sizes so the caller can reject the request up front.
  */
-app.post('/scrape', async (req, res) => {
-  const { url, mode = 'hybrid' } = req.body;
-  
-  if (!url) {
-    return res.status(400).json({ error: 'URL required in request body' });
+function parseViewportRequest(body: any): {
+  viewport?: ViewportInput;
+  viewports?: ViewportInput[] | 'auto';
+} {
+  const { viewport, viewports } = body;
+
+  if (viewports === 'auto') {
+    if (viewport !== undefined) resolveViewport(viewport);
+    return { viewport, viewports };
+  }
+  if (viewports !== undefined && !Array.isArray(viewports)) {
+    throw new Error("viewports must be an array or 'auto'");
+  }
+
+  if (viewport !== undefined) resolveViewport(viewport);
+  (viewports || []).forEach((entry: ViewportInput) => resolveViewport(entry));
+
+  return {
+    viewport,
+    viewports: viewports && viewports.length > 0 ? viewports : undefined
+  };
+}
+
+/**
+ * Validate the optional `auth` block (cookies, headers, basic auth,
+ * storageState). `storageState` may be sent as an object or a JSON string;
+ * it is never treated as a file path.
+ */
+function parseAuthRequest(body: any): CaptureAuth | undefined {
+  const { auth } = body;
+  if (auth === undefined || auth === null) return undefined;
+  if (typeof auth !== 'object') {
+    throw new Error('auth must be an object');
+  }
+
+  const { cookies, headers, httpCredentials } = auth;
+  let { storageState } = auth;
+
+  if (cookies !== undefined) {
+    if (!Array.isArray(cookies) || cookies.some((c: any) => !c || typeof c.name !== 'string' || typeof c.value !== 'string')) {
+      throw new Error('auth.cookies must be an array of { name, value } objects');
+    }
+  }
+
+  if (headers !== undefined) {
+    if (typeof headers !== 'object' || Object.values(headers).some((v) => typeof v !== 'string')) {
+      throw new Error('auth.headers must map header names to strings');
+    }
+  }
+
+  if (httpCredentials !== undefined) {
+    if (typeof httpCredentials?.username !== 'string' || typeof httpCredentials?.password !== 'string') {
+      throw new Error('auth.httpCredentials must have a username and password');
+    }
+  }
+
+  if (typeof storageState === 'string') {
+    try {
+      storageState = JSON.parse(storageState);
+    } catch {
+      throw new Error('auth.storageState must be valid JSON');
+    }
+  }
+  if (storageState !== undefined && (typeof storageState !== 'object' || storageState === null)) {
+    throw new Error('auth.storageState must be a storageState object');
+  }
+
+  return { cookies, headers, httpCredentials, storageState };
+}
+
+/**
+ * Validate the optional `rootSelector` (a selector or a list of selectors)
+ */
+function parseRootSelectorRequest(body: any): string | string[] | undefined {
+  const { rootSelector } = body;
+  if (rootSelector === undefined || rootSelector === null) return undefined;
+
+  const selectors = Array.isArray(rootSelector) ? rootSelector : [rootSelector];
+  if (selectors.length === 0 || selectors.some((s: any) => typeof s !== 'string' || !s.trim())) {
+    throw new Error('rootSelector must be a selector string or a non-empty array of selectors');
+  }
+
+  return rootSelector;
+}
+
+const EXTRACTION_MODES: ExtractionMode[] = ['basic', 'hybrid', 'maximum'];
+
+function parseModeRequest(body: any): ExtractionMode {
+  const { mode = 'hybrid' } = body;
+  if (!EXTRACTION_MODES.includes(mode)) {
+    throw new Error(`mode must be one of ${EXTRACTION_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+function parseCacheRequest(body: any): CacheMode {
+  const { cache = 'use' } = body;
+  if (!CACHE_MODES.includes(cache)) {
+    throw new Error(`cache must be one of ${CACHE_MODES.join(', ')}`);
+  }
+  return cache;
+}
+
+function parseIdSchemeRequest(body: any): IdScheme | undefined {
+  const { idScheme } = body;
+  if (idScheme === undefined || idScheme === null) return undefined;
+  if (idScheme !== 'stable' && idScheme !== 'random') {
+    throw new Error("idScheme must be 'stable' or 'random'");
+  }
+  return idScheme;
+}
+
+/**
+ * A validated capture request, shared by /scrape, /jobs and /ws
+ */
+interface CaptureRequest {
+  url: string;
+  mode: ExtractionMode;
+  viewports?: ViewportInput[] | 'auto';
+  options: ExtractionOptions;
+  cache: CacheMode;
+}
+
+type Capture = Awaited<ReturnType<typeof extractWithMode>>;
+
+/**
+ * Validate a request body. Throws with a message suitable for a 400 response.
+ */
+function parseCaptureRequest(body: any): CaptureRequest {
+  const { url } = body || {};
+  if (!url || typeof url !== 'string') {
+    throw new Error('URL required in request body');
   }
-  
-  console.log(`Scraping ${url} in ${mode} mode...`);
-  
   try {
-    let data;
-    
-    switch (mode) {
-      case 'basic':
-        data = await extractBasic(url);
+    new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  const mode = parseModeRequest(body);
+  const viewportRequest = parseViewportRequest(body);
+  const auth = parseAuthRequest(body);
+  const cache = parseCacheRequest(body);
+  return {
+    url,
+    mode,
+    viewports: viewportRequest.viewports,
+    options: {
+      viewport: viewportRequest.viewport,
+      auth,
+      actions: validateActions(body.actions),
+      rootSelector: parseRootSelectorRequest(body),
+      idScheme: parseIdSchemeRequest(body),
+      colorSchemes: validateColorSchemes(body.colorSchemes),
+      // Both passes default to on; only an explicit false is passed through
+      captureTokenRefs: body.captureTokenRefs === false ? false : undefined,
+      detectComponents: body.detectComponents === false ? false : undefined
+    },
+    // Logged-in captures would sit on disk in plain text
+    cache: auth ? 'bypass' : cache
+  };
+}
+
+/**
+ * Run a capture: one entry per requested viewport, or a single capture.
+ * Results go through the on-disk cache according to `request.cache`; each
+ * stage is passed to `report` as it happens.
+ */
+async function runCapture(
+  request: CaptureRequest,
+  { signal, report = () => {} }: Partial<JobContext> = {}
+): Promise<{ captures: Capture[]; cache: CacheStatus }> {
+  const { url, mode, options } = request;
+  const viewports = request.viewports || [options.viewport || 'desktop'];
+  const { events, cache } = await openCaptureStream(request, signal);
+
+  const collected: ViewportExtractionEvent[] = [];
+  let nodes = 0;
+  let screenshots = 0;
+  report({ stage: 'capturing_page', url, mode, cache, current: 1, total: 1 });
+  for await (const event of events) {
+    collected.push(event);
+    const position = { current: event.index + 1, total: event.total };
+    switch (event.type) {
+      case 'page':
+        nodes = event.page.nodes.length;
+        screenshots = 0;
+        report({ stage: 'scraping_dom', ...position, nodes });
         break;
-      case 'maximum':
-        data = await extractMaximum(url);
+
+      case 'screenshots':
+        screenshots += Object.keys(event.screenshots).length;
+        report({ stage: 'scraping_dom', ...position, nodes, screenshots });
         break;
-      case 'hybrid':
-      default:
-        data = await extractHybrid(url);
+
+      case 'done':
+        if (event.index + 1 < event.total) {
+          report({ stage: 'capturing_page', url, mode, cache, ...position, current: event.index + 2 });
+        }
         break;
     }
+  }
+
+  return { captures: mergeViewportEvents(collected, viewports), cache };
+}
+
+/**
+ * A capture for the WebSocket stream, event by event: replayed from the
+ * cache on a hit, otherwise extracted live and cached once complete
+ */
+async function openCaptureStream(
+  request: CaptureRequest,
+  signal?: AbortSignal
+): Promise<{ events: AsyncIterable<ViewportExtractionEvent>; cache: CacheStatus }> {
+  const cacheKey = captureCacheKey(request);
+
+  if (request.cache === 'use') {
+    const cached = await captureCache.get<Capture[]>(cacheKey);
+    if (cached) {
+      console.log(`✓ Serving ${request.url} from cache`);
+      return { events: replayCaptures(cached), cache: 'hit' };
+    }
+  }
+
+  return {
+    events: extractAndCache(request, cacheKey, signal),
+    cache: request.cache === 'use' ? 'miss' : request.cache
+  };
+}
+
+async function* replayCaptures(captures: Capture[]): AsyncGenerator<ViewportExtractionEvent> {
+  for (let index = 0; index < captures.length; index++) {
+    for (const event of toExtractionEvents(captures[index])) {
+      yield { ...event, index, total: captures.length };
+    }
+  }
+}
+
+async function* extractAndCache(
+  request: CaptureRequest,
+  cacheKey: string,
+  signal?: AbortSignal
+): AsyncGenerator<ViewportExtractionEvent> {
+  const { url, mode, options } = request;
+  const viewports = request.viewports || [options.viewport || 'desktop'];
+  const events: ViewportExtractionEvent[] = [];
+
+  for await (const event of streamViewports(url, viewports, mode, { ...options, signal })) {
+    events.push(event);
+    yield event;
+  }
+
+  if (request.cache !== 'bypass') {
+    await captureCache.set(cacheKey, mergeViewportEvents(events, viewports)).catch((error) => {
+      console.warn('Failed to write capture cache:', error.message);
+    });
+  }
+}
+
+function captureCacheKey(request: CaptureRequest): string {
+  const { url, mode, viewports, options } = request;
+  return captureCache.key({
+    url: new URL(url).href,
+    mode,
+    viewports,
+    ...options
+  });
+}
+
+/**
+ * Response body for a finished capture: `{ captures }` for multi-viewport
+ * requests, otherwise the single ExtractedData
+ */
+function formatCaptureResult(request: CaptureRequest, captures: Capture[]) {
+  return request.viewports ? { captures } : captures[0];
+}
+
+/**
+ * Main scrape endpoint (HTTP)
+ */
+app.post('/scrape', async (req, res) => {
+  let request: CaptureRequest;
+  try {
+    request = parseCaptureRequest(req.body);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  console.log(`Scraping ${request.url} in ${request.mode} mode...`);
+  
+  try {
+    const { captures, cache } = await runCapture(request);
+    const totalNodes = captures.reduce((sum, data) => sum + data.nodes.length, 0);
+    console.log(`✓ Extraction complete: ${captures.length} capture(s), ${totalNodes} nodes`);
     
-    console.log(`✓ Extraction complete: ${data.nodes.length} nodes, ${data.fonts.length} fonts, ${Object.keys(data.screenshots).length} screenshots`);
-    
-    res.json(data);
+    res.set('X-Capture-Cache', cache);
+    res.json(formatCaptureResult(request, captures));
   } catch (error: any) {
     console.error('Scrape error:', error.message);
     res.status(500).json({ 
@@ -171,6 +459,103 @@ app.post('/scrape', async (req, res) => {
   }
 });
 
+/**
+ * Async job API: POST /jobs returns immediately with a job id; poll
+ * GET /jobs/:id and fetch GET /jobs/:id/result once it has completed
+ */
+const jobQueue = new JobQueue<CaptureRequest, Capture[]>(
+  async (request, context: JobContext) => {
+    const { captures } = await runCapture(request, context);
+    return captures;
+  },
+  {
+    concurrency: CONFIG.JOB_CONCURRENCY,
+    timeoutMs: CONFIG.JOB_TIMEOUT_MS,
+    retentionMs: CONFIG.JOB_RETENTION_MS
+  }
+);
+
+function describeJob(job: Job<CaptureRequest, Capture[]>) {
+  const { stage, ...progress } = job.progress;
+  const toIso = (time?: number) => (time ? new Date(time).toISOString() : undefined);
+
+  return {
+    id: job.id,
+    status: job.status,
+    stage,
+    progress,
+    url: job.request.url,
+    mode: job.request.mode,
+    createdAt: toIso(job.createdAt),
+    startedAt: toIso(job.startedAt),
+    finishedAt: toIso(job.finishedAt),
+    error: job.error,
+    loadInfo: job.result
+      ? job.request.viewports
+        ? job.result.map((capture) => capture.loadInfo)
+        : job.result[0].loadInfo
+      : undefined
+  };
+}
+
+app.post('/jobs', (req, res) => {
+  let request: CaptureRequest;
+  try {
+    request = parseCaptureRequest(req.body);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const job = jobQueue.submit(request);
+  console.log(`Queued job ${job.id} for ${request.url} (${request.mode})`);
+  res.status(202).json({
+    ...describeJob(job),
+    statusUrl: `/jobs/${job.id}`,
+    resultUrl: `/jobs/${job.id}/result`
+  });
+});
+
+app.get('/jobs/:id', (req, res) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(describeJob(job));
+});
+
+app.get('/jobs/:id/result', (req, res) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (job.status !== 'completed' || !job.result) {
+    return res.status(409).json({
+      error: `Job is ${job.status}`,
+      status: job.status,
+      details: job.error
+    });
+  }
+  res.json(formatCaptureResult(job.request, job.result));
+});
+
+/**
+ * Cancel a queued or running job; deleting a finished job drops its result
+ */
+app.delete('/jobs/:id', (req, res) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  if (job.status === 'queued' || job.status === 'running') {
+    jobQueue.cancel(job.id);
+    return res.json(describeJob(job));
+  }
+
+  jobQueue.remove(job.id);
+  res.json({ ...describeJob(job), removed: true });
+});
+
 /**
  * Create HTTP server
  */
@@ -178,13 +563,10 @@ const server = createServer(app);
 
 /**
  * WebSocket server for streaming large pages
+ *
+ * A socket carries one capture request, or a RESUME of a stream whose
+ * socket dropped. ACK and NACK messages steer the stream in progress.
  */
-function sendProgress(ws: WebSocket, payload: any) {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ type: 'PROGRESS', payload }));
-  }
-}
-
 const wss = new WebSocketServer({
   server,
   path: '/ws',
@@ -193,65 +575,67 @@ const wss = new WebSocketServer({
 
 wss.on('connection', (ws) => {
   console.log('✓ WebSocket connection established');
-  
+  let controller: StreamController | null = null;
+
   ws.on('message', async (message) => {
     try {
-      const { url, mode = 'hybrid' } = JSON.parse(message.toString());
-      console.log(`WebSocket: Extracting ${url} in ${mode} mode...`);
-      sendProgress(ws, { stage: 'capturing_page', url, mode });
-      
-      try {
-        let data;
-        
-        switch (mode) {
-          case 'basic':
-            data = await extractBasic(url);
-            break;
-          case 'maximum':
-            data = await extractMaximum(url);
-            break;
-          case 'hybrid':
-          default:
-            data = await extractHybrid(url);
-            break;
+      const body = JSON.parse(message.toString());
+
+      if (body?.type === 'ACK' || body?.type === 'NACK') {
+        controller?.handleControl(body as StreamControlMessage);
+        return;
+      }
+
+      if (body?.type === 'RESUME') {
+        controller = resumeStream(String(body.streamId), ws, Number(body.lastSequence));
+        if (!controller) {
+          ws.send(JSON.stringify({
+            type: 'ERROR',
+            payload: { message: 'Stream expired or unknown; start the import again' }
+          }));
+          ws.close();
         }
-        
-        console.log(`✓ Extraction complete: ${data.nodes.length} nodes`);
-        sendProgress(ws, { stage: 'scraping_dom', totalNodes: data.nodes.length });
+        return;
+      }
 
-        const nodesForStreaming: IRNode[] = data.nodes.map((node: IRNode) => ({
-          ...node,
-          screenshot: data.screenshots?.[node.id],
-          states: data.states?.[node.id]
-        }));
-        sendProgress(ws, {
-          stage: 'streaming_nodes',
-          current: 0,
-          total: nodesForStreaming.length
-        });
+      // One stream per socket: the plugin tells the streams' messages apart
+      // by order only
+      if (controller?.active) {
+        throw new Error('A capture is already streaming on this connection');
+      }
 
-        const controller = new StreamController(ws);
-        await controller.streamExtractedPage({
-          nodes: nodesForStreaming,
-          fonts: data.fonts,
-          tokens: data.tokens
-        });
+      const request = parseCaptureRequest(body);
+      const { url, mode } = request;
+      console.log(`WebSocket: Extracting ${url} in ${mode} mode...`);
+
+      const stream = new StreamController(ws);
+      controller = stream;
+      await stream.start();
+
+      try {
+        const { events, cache } = await openCaptureStream(request);
+        await stream.sendProgress({ stage: 'capturing_page', url, mode, cache });
+
+        // Nodes are streamed as soon as the DOM pass is done, screenshots,
+        // states and fonts as they finish. Single captures are announced as a
+        // breakpoint too, so the plugin always builds into a frame it can tag
+        // for "Refresh from URL"
+        await stream.streamExtraction(events);
 
         console.log('✓ WebSocket extraction complete');
         
       } catch (extractError: any) {
         console.error('Extraction failed:', extractError.message);
+        stream.fail(extractError.message);
+      }
+    } catch (error: any) {
+      console.error('WebSocket message error:', error.message);
+      if (ws.readyState === WebSocket.OPEN) {
         ws.send(JSON.stringify({ 
           type: 'error', 
-          error: extractError.message 
+          error: error instanceof SyntaxError ? 'Invalid message format' : error.message
         }));
       }
-    } catch (error: any) {
-      console.error('WebSocket message error:', error.message);
-      ws.send(JSON.stringify({ 
-        type: 'error', 
-        error: 'Invalid message format' 
-      }));
     }
   });
   
@@ -334,6 +718,18 @@ async function startServer() {
 ║                                                           ║
 ║  POST /scrape                                             ║
 ║    Body: { "url": "...", "mode": "hybrid" }              ║
+║    Optional: "viewports": ["desktop", "iPhone 13", ...]  ║
+║              or "auto" (the site's @media breakpoints)   ║
+║    Optional: "auth": { cookies, headers, ... }           ║
+║    Optional: "actions": [{ "type": "click", ... }]       ║
+║    Optional: "rootSelector": "#pricing" or [...]         ║
+║    Optional: "cache": "use" | "refresh" | "bypass"        ║
+║    Optional: "colorSchemes": true or { className, ... }  ║
+║                                                           ║
+║  POST /jobs              (same body, returns job id)     ║
+║  GET  /jobs/:id          status, stage, progress          ║
+║  GET  /jobs/:id/result                                    ║
+║  DELETE /jobs/:id        cancel                           ║
 ║                                                           ║
 ║  GET  /proxy-image?url=IMAGE_URL                         ║
 ║  GET  /screenshot?url=PAGE_URL                           ║
@@ -348,6 +744,11 @@ async function startServer() {
 ║                                                           ║
 ╚═══════════════════════════════════════════════════════════╝
   `);
+
+  browserPool.warm().then(
+    () => console.log(`✓ Browser pool ready (${browserPool.getStats().browsers} browsers)`),
+    (error) => console.error('⚠️  Browser pool warm-up failed:', error.message)
+  );
   }).on('error', (err) => {
     console.error('❌ Server failed to start:', err);
     process.exit(1);
@@ -358,18 +759,19 @@ async function startServer() {
 startServer();
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, closing server...');
+async function shutdown(signal: string): Promise<void> {
+  console.log(`${signal} received, closing server...`);
+  await browserPool.close();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
   });
+}
+
+process.on('SIGTERM', () => {
+  void shutdown('SIGTERM');
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, closing server...');
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
+  void shutdown('SIGINT');
 });
@@ -1,59 +1,257 @@
+import { randomUUID } from 'crypto';
 import { WebSocket } from 'ws';
 import type {
+  BinaryFrameHeader,
   CompleteMessage,
   IRNode,
-  ImageChunkMessage,
+  IRStates,
+  StreamControlMessage,
   StreamMessage
 } from '../../ir.js';
+import { encodeBinaryFrame } from './binary-frames.js';
+import { compareNodePriority, scheduleNodes, screenIndex } from './stream-scheduler.js';
+import type { ViewportExtractionEvent } from './scraper.js';
 import { ImageProcessor } from './image-processor.js';
 import type { ProcessingStats } from './image-processor.js';
 import { CONFIG } from './config.js';
+import { resolveViewport } from './viewports.js';
 
-export interface StreamPayload {
+interface StreamPayload {
   nodes: IRNode[];
   fonts?: any[];
   tokens?: any;
+  /** Viewport height the nodes were captured at; what counts as "first screen" */
+  screenHeight?: number;
 }
 
+type OutgoingMessage =
+  | Omit<StreamMessage, 'sequenceNumber'>
+  | Omit<CompleteMessage, 'sequenceNumber'>;
+
+const DEFAULT_SCREEN_HEIGHT = resolveViewport('desktop').height;
+
+/** How often a sender blocked on the window re-checks for timeouts */
+const CREDIT_POLL_MS = 1000;
+
+/** Streams that can still be resumed, by stream id */
+const sessions = new Map<string, StreamController>();
+
+/** Node ids repeat across breakpoints; streamed images are keyed by both */
+function imageKey(breakpoint: number, nodeId: string): string {
+  return `${breakpoint}:${nodeId}`;
+}
+
+/**
+ * Re-attach a dropped stream to a new socket. Returns null when the stream
+ * is unknown, finished or expired.
+ */
+export function resumeStream(
+  streamId: string,
+  ws: WebSocket,
+  lastSequence: number
+): StreamController | null {
+  const controller = sessions.get(streamId);
+  if (!controller) return null;
+  controller.resume(ws, lastSequence);
+  return controller;
+}
+
+/**
+ * Streams one capture over `/ws`. Every message carries a sequence number
+ * and stays buffered until the client acknowledges it; once `STREAM_WINDOW`
+ * messages are unacknowledged, sending waits. That makes the plugin's pace
+ * the stream's pace, lets NACKed image chunks be resent, and lets a client
+ * whose socket dropped RESUME from its last acknowledged message.
+ */
 export class StreamController {
+  readonly streamId = randomUUID();
   private sequenceNumber = 0;
   private readonly imageProcessor = new ImageProcessor();
   private totalNodes = 0;
 
-  constructor(private readonly ws: WebSocket) {}
+  /** Sent, not yet acknowledged; replayed on resume */
+  private readonly unacked = new Map<number, string | Buffer>();
+  /**
+   * Streamed images by breakpoint and node id (ids repeat across
+   * breakpoints), kept until every chunk is acknowledged so NACKed chunks
+   * can be resent
+   */
+  private readonly imageBuffers = new Map<string, { buffer: Buffer; unacked: Set<number> }>();
+  /** Image and chunk index of each IMAGE_CHUNK frame not yet acknowledged */
+  private readonly chunkFrames = new Map<number, { key: string; chunkIndex: number }>();
+  /** Breakpoint of the event being forwarded; binary frames carry it */
+  private breakpoint = 0;
+  private creditWaiters: (() => void)[] = [];
+  private lastAckAt = Date.now();
+  private completeSequence: number | null = null;
+  private closedReason: string | null = null;
+  private resumeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private ws: WebSocket) {
+    sessions.set(this.streamId, this);
+    this.watch(ws);
+  }
+
+  /** False once the stream has completed, failed or expired */
+  get active(): boolean {
+    return !this.closedReason;
+  }
 
-  async streamExtractedPage(payload: StreamPayload): Promise<void> {
-    const { nodes, fonts = [], tokens } = payload;
+  /** Announce the stream id the client needs to resume */
+  async start(): Promise<void> {
+    await this.send({
+      type: 'STREAM_START',
+      payload: { streamId: this.streamId, window: CONFIG.STREAM_WINDOW }
+    });
+  }
 
+  /**
+   * Stream captures while they are being extracted. Each capture is
+   * announced with a BREAKPOINT message so the plugin can build it in its
+   * own frame, and its nodes go out as soon as its DOM pass is done;
+   * screenshots, states and fonts follow as they arrive. Extraction keeps
+   * running while earlier events are sent. COMPLETE is only sent once every
+   * capture has been streamed.
+   */
+  async streamExtraction(events: AsyncIterable<ViewportExtractionEvent>): Promise<void> {
+    let sending = Promise.resolve();
+    let sendFailed = false;
     try {
-      this.totalNodes = nodes.length;
-      this.attachImageSources(nodes);
-      await this.processAllImages(nodes);
-
-      if (tokens) {
-        this.send({
-          type: 'TOKENS',
-          payload: tokens,
-          sequenceNumber: this.sequenceNumber++
+      for await (const event of events) {
+        // Leaving the loop stops the extraction and releases its browser
+        if (sendFailed) break;
+        sending = sending.then(() => this.forward(event));
+        sending.catch(() => {
+          sendFailed = true;
         });
       }
+      await sending;
+      await this.sendComplete();
+    } catch (error) {
+      this.fail(error instanceof Error ? error.message : 'Unknown streaming error');
+    }
+  }
+
+  async sendProgress(data: any): Promise<void> {
+    await this.send({ type: 'PROGRESS', payload: data });
+  }
+
+  /**
+   * Report an error and end the stream. Errors skip the send window: the
+   * client may be the reason it is full.
+   */
+  fail(error: string): void {
+    if (this.closedReason) {
+      console.warn(`Stream ${this.streamId} ended (${this.closedReason}): ${error}`);
+      return;
+    }
+    const sequenceNumber = this.sequenceNumber++;
+    this.transmit(
+      sequenceNumber,
+      JSON.stringify({ type: 'ERROR', payload: { message: error }, sequenceNumber })
+    );
+    this.close('failed');
+  }
+
+  handleControl(message: StreamControlMessage): void {
+    if (message.type === 'ACK') {
+      this.acknowledge(message.sequenceNumber);
+    } else if (message.type === 'NACK') {
+      const { breakpoint = 0, nodeId, chunkIndices } = message;
+      this.resendChunks(breakpoint, nodeId, chunkIndices).catch((error) => {
+        console.warn(`Could not resend chunks of ${message.nodeId}:`, error.message);
+      });
+    }
+  }
+
+  resume(ws: WebSocket, lastSequence: number): void {
+    // The plugin processes messages in order, so everything up to
+    // `lastSequence` has been handled even if its ack was lost
+    for (const sequenceNumber of Array.from(this.unacked.keys())) {
+      if (sequenceNumber <= lastSequence) {
+        this.unacked.delete(sequenceNumber);
+        this.releaseChunk(sequenceNumber);
+      }
+    }
 
-      if (fonts.length > 0) {
-        this.send({
-          type: 'FONTS',
-          payload: fonts,
-          sequenceNumber: this.sequenceNumber++
+    this.ws = ws;
+    this.watch(ws);
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    this.lastAckAt = Date.now();
+
+    const pending = Array.from(this.unacked.entries()).sort(([a], [b]) => a - b);
+    for (const [, data] of pending) {
+      ws.send(data);
+    }
+    console.log(`Stream ${this.streamId} resumed, resent ${pending.length} messages`);
+    this.releaseCredit();
+  }
+
+  private async forward(event: ViewportExtractionEvent): Promise<void> {
+    this.breakpoint = event.index;
+    switch (event.type) {
+      case 'page': {
+        const { page, index, total } = event;
+        await this.send({
+          type: 'BREAKPOINT',
+          payload: {
+            ...page.breakpoint,
+            index,
+            total,
+            root: page.root,
+            components: page.components
+          }
+        });
+        // Tokens are shared across breakpoints; only create them once
+        await this.streamPage({
+          nodes: page.nodes,
+          tokens: index === 0 ? page.tokens : undefined,
+          screenHeight: page.breakpoint.height
         });
+        break;
       }
 
-      await this.streamNodes(nodes);
-      await this.streamImageChunks(nodes);
-      this.sendComplete();
-    } catch (error) {
-      this.sendError(error instanceof Error ? error.message : 'Unknown streaming error');
+      case 'screenshots':
+        await this.sendScreenshots(event.screenshots);
+        break;
+
+      case 'states':
+        await this.sendStates(event.states);
+        break;
+
+      case 'fonts':
+        if (event.fonts.length > 0) {
+          await this.send({ type: 'FONTS', payload: event.fonts });
+        }
+        break;
     }
   }
 
+  private async streamPage(payload: StreamPayload): Promise<void> {
+    const { fonts = [], tokens, screenHeight = DEFAULT_SCREEN_HEIGHT } = payload;
+    // Image bytes are attached to copies: the capture may still be cached
+    const nodes = scheduleNodes(
+      payload.nodes.map((node) => ({ ...node })),
+      screenHeight
+    );
+
+    this.totalNodes += nodes.length;
+    this.attachImageSources(nodes);
+
+    if (tokens) {
+      await this.send({ type: 'TOKENS', payload: tokens });
+    }
+
+    if (fonts.length > 0) {
+      await this.send({ type: 'FONTS', payload: fonts });
+    }
+
+    await this.streamNodes(nodes, screenHeight);
+  }
+
   private attachImageSources(nodes: IRNode[]): void {
     nodes.forEach((node) => {
       if (node.type !== 'IMAGE') return;
@@ -71,11 +269,10 @@ export class StreamController {
     });
   }
 
-  private async processAllImages(nodes: IRNode[]): Promise<void> {
-    const imageNodes = nodes.filter((node) => node.type === 'IMAGE' && node.imageSource);
-
-    if (imageNodes.length === 0) return;
-
+  private async processImages(
+    imageNodes: IRNode[],
+    progress: { current: number; total: number }
+  ): Promise<void> {
     const concurrency = Math.max(1, CONFIG.MAX_CONCURRENT_IMAGES);
 
     for (let i = 0; i < imageNodes.length; i += concurrency) {
@@ -99,151 +296,294 @@ export class StreamController {
                 isStreamed: true as const
               }
             });
+          }
 
-            (node as any)._imageBuffer = buffer;
-            if (node.image) {
-              delete node.image.data;
-            }
-          } else {
-            const uint8Array = new Uint8Array(buffer);
-            node.imageData = Array.from(uint8Array);
-            if (node.image) {
-              delete node.image.data;
-            }
+          // Streamed in IMAGE_CHUNK frames, or as one IMAGE_DATA frame
+          // right before the node's batch
+          (node as any)._imageBuffer = buffer;
+          if (node.image) {
+            const { data, ...image } = node.image;
+            node.image = image;
           }
         })
       );
 
-      const processed = Math.min(i + concurrency, imageNodes.length);
-      this.sendProgress({
-        stage: 'processing_images',
-        current: processed,
-        total: imageNodes.length
-      });
+      progress.current += batch.length;
+      await this.sendProgress({ stage: 'processing_images', ...progress });
     }
   }
 
-  private async streamNodes(nodes: IRNode[]): Promise<void> {
+  /**
+   * Send nodes in scheduled batches. Images are processed batch by batch,
+   * so the first screenful does not wait for images further down. Chunks
+   * of large images on the first screen follow their batch; the others
+   * are sent once every node is out, by priority.
+   */
+  private async streamNodes(nodes: IRNode[], screenHeight: number): Promise<void> {
     const BATCH_SIZE = 50;
     const totalNodes = nodes.length;
     if (totalNodes === 0) {
       return;
     }
 
-    this.sendProgress({
+    await this.sendProgress({
       stage: 'streaming_nodes',
       current: 0,
       total: totalNodes
     });
 
-    for (let i = 0; i < nodes.length; i += BATCH_SIZE) {
-      const batch = nodes.slice(i, i + BATCH_SIZE).map((node) => this.cloneForTransport(node));
+    const imageProgress = {
+      current: 0,
+      total: nodes.filter((node) => node.type === 'IMAGE' && node.imageSource).length
+    };
+    const deferredImages: IRNode[] = [];
 
-      const message: StreamMessage = {
-        type: 'NODES',
-        payload: { nodes: batch },
-        sequenceNumber: this.sequenceNumber++
-      };
+    for (let i = 0; i < nodes.length; i += BATCH_SIZE) {
+      const slice = nodes.slice(i, i + BATCH_SIZE);
+      await this.processImages(
+        slice.filter((node) => node.type === 'IMAGE' && node.imageSource),
+        imageProgress
+      );
+      await this.sendNodeBinaries(slice);
+      const batch = slice.map((node) => this.cloneForTransport(node));
 
-      this.send(message);
-      await this.sleep(50);
+      await this.send({ type: 'NODES', payload: { nodes: batch } });
       const current = Math.min(i + batch.length, totalNodes);
-      this.sendProgress({
+      await this.sendProgress({
         stage: 'streaming_nodes',
         current,
         total: totalNodes
       });
+
+      for (const node of slice) {
+        if (!node.imageChunkRef?.isStreamed) continue;
+        if (screenIndex(node, screenHeight) === 0) {
+          await this.streamImage(node);
+        } else {
+          deferredImages.push(node);
+        }
+      }
+    }
+
+    deferredImages.sort((a, b) => compareNodePriority(a, b, screenHeight));
+    for (let index = 0; index < deferredImages.length; index++) {
+      await this.streamImage(deferredImages[index]);
+      await this.sendProgress({
+        stage: 'streaming_images',
+        current: index + 1,
+        total: deferredImages.length
+      });
     }
   }
 
-  private async streamImageChunks(nodes: IRNode[]): Promise<void> {
-    const streamedNodes = nodes.filter((node) => node.imageChunkRef?.isStreamed);
+  private async streamImage(node: IRNode): Promise<void> {
+    const buffer = (node as any)._imageBuffer as Buffer | undefined;
+    if (!buffer) return;
 
-    if (streamedNodes.length === 0) {
-      return;
+    const totalChunks = node.imageChunkRef!.totalChunks;
+    const unacked = new Set(Array.from({ length: totalChunks }, (_, index) => index));
+    this.imageBuffers.set(imageKey(this.breakpoint, node.id), { buffer, unacked });
+    delete (node as any)._imageBuffer;
+
+    for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+      await this.sendChunk(this.breakpoint, node.id, chunkIndex);
     }
+  }
+
+  private async sendChunk(breakpoint: number, nodeId: string, chunkIndex: number): Promise<void> {
+    const key = imageKey(breakpoint, nodeId);
+    const image = this.imageBuffers.get(key);
+    if (!image) return;
+
+    const { buffer } = image;
+    const totalChunks = Math.ceil(buffer.length / CONFIG.IMAGE_CHUNK_SIZE);
+    const start = chunkIndex * CONFIG.IMAGE_CHUNK_SIZE;
+    const end = Math.min(start + CONFIG.IMAGE_CHUNK_SIZE, buffer.length);
+    const sequenceNumber = await this.sendBinary(
+      { type: 'IMAGE_CHUNK', breakpoint, nodeId, chunkIndex, totalChunks },
+      buffer.subarray(start, end)
+    );
+    this.chunkFrames.set(sequenceNumber, { key, chunkIndex });
+  }
+
+  private async resendChunks(
+    breakpoint: number,
+    nodeId: string,
+    chunkIndices: number[]
+  ): Promise<void> {
+    const image = this.imageBuffers.get(imageKey(breakpoint, nodeId));
+    if (!image) return;
+
+    const totalChunks = Math.ceil(image.buffer.length / CONFIG.IMAGE_CHUNK_SIZE);
+    const valid = chunkIndices.filter(
+      (index) => Number.isInteger(index) && index >= 0 && index < totalChunks
+    );
+    console.log(`Resending ${valid.length} chunks of ${nodeId}`);
+    for (const chunkIndex of valid) {
+      await this.sendChunk(breakpoint, nodeId, chunkIndex);
+    }
+  }
+
+  /** The plugin acks a chunk once stored; an image with all chunks stored is done */
+  private releaseChunk(sequenceNumber: number): void {
+    const frame = this.chunkFrames.get(sequenceNumber);
+    if (!frame) return;
+    this.chunkFrames.delete(sequenceNumber);
 
-    for (const node of streamedNodes) {
+    const image = this.imageBuffers.get(frame.key);
+    image?.unacked.delete(frame.chunkIndex);
+    if (image?.unacked.size === 0) {
+      this.imageBuffers.delete(frame.key);
+    }
+  }
+
+  /**
+   * Inline images of a batch go out as binary frames ahead of it, so the
+   * plugin has the bytes by the time it builds the nodes
+   */
+  private async sendNodeBinaries(nodes: IRNode[]): Promise<void> {
+    for (const node of nodes) {
       const buffer = (node as any)._imageBuffer as Buffer | undefined;
-      if (!buffer) continue;
-
-      const totalChunks = node.imageChunkRef!.totalChunks;
-
-      for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
-        const start = chunkIndex * CONFIG.IMAGE_CHUNK_SIZE;
-        const end = Math.min(start + CONFIG.IMAGE_CHUNK_SIZE, buffer.length);
-        const chunkBuffer = buffer.slice(start, end);
-
-        const message: ImageChunkMessage = {
-          type: 'IMAGE_CHUNK',
-          nodeId: node.id,
-          chunkIndex,
-          totalChunks,
-          data: Array.from(chunkBuffer),
-          sequenceNumber: this.sequenceNumber++,
-          timestamp: Date.now()
-        };
-
-        this.send(message);
-        await this.sleep(10);
+      if (buffer && !node.imageChunkRef?.isStreamed) {
+        await this.sendBinary(
+          {
+            type: 'IMAGE_DATA',
+            breakpoint: this.breakpoint,
+            nodeId: node.id,
+            chunkIndex: 0,
+            totalChunks: 1
+          },
+          buffer
+        );
+        delete (node as any)._imageBuffer;
       }
+    }
+  }
 
-      delete (node as any)._imageBuffer;
-
-      this.sendProgress({
-        stage: 'streaming_images',
-        current: streamedNodes.indexOf(node) + 1,
-        total: streamedNodes.length
-      });
+  /**
+   * Screenshots finish after the DOM pass, so they usually follow their
+   * nodes; the plugin attaches them to the layers it already built
+   */
+  private async sendScreenshots(screenshots: Record<string, string>): Promise<void> {
+    for (const [nodeId, screenshot] of Object.entries(screenshots)) {
+      await this.sendBinary(
+        { type: 'SCREENSHOT', breakpoint: this.breakpoint, nodeId, chunkIndex: 0, totalChunks: 1 },
+        Buffer.from(screenshot, 'base64')
+      );
     }
   }
 
+  private async sendStates(states: Record<string, IRStates>): Promise<void> {
+    if (Object.keys(states).length === 0) return;
+    await this.send({ type: 'STATES', payload: { states } });
+  }
+
   private cloneForTransport(node: IRNode): IRNode {
-    const cloned = JSON.parse(JSON.stringify(node)) as IRNode;
+    // Bytes travel in binary frames, never inside the JSON
+    const { _imageBuffer, ...rest } = node as any;
+    const cloned = JSON.parse(JSON.stringify(rest)) as IRNode;
     return cloned;
   }
 
-  private sendComplete(): void {
+  private async sendComplete(): Promise<void> {
     const stats: ProcessingStats = this.imageProcessor.getStats();
-    const message: CompleteMessage = {
+    // The stream (and any image not fully acknowledged) is kept until
+    // COMPLETE is acknowledged: the plugin may still NACK chunks
+    this.completeSequence = await this.send({
       type: 'COMPLETE',
       totalNodes: this.totalNodes,
       totalImages: stats.totalImages,
       inlineImages: stats.inlineImages,
-      streamedImages: stats.streamedImages,
-      sequenceNumber: this.sequenceNumber++
-    };
+      streamedImages: stats.streamedImages
+    });
+  }
 
-    this.send(message);
+  private async send(message: OutgoingMessage): Promise<number> {
+    await this.acquireCredit();
+    const sequenceNumber = this.sequenceNumber++;
+    this.transmit(sequenceNumber, JSON.stringify({ ...message, sequenceNumber }));
+    return sequenceNumber;
   }
 
-  private sendProgress(data: any): void {
-    const message: StreamMessage = {
-      type: 'PROGRESS',
-      payload: data,
-      sequenceNumber: this.sequenceNumber++
-    };
+  private async sendBinary(
+    header: Omit<BinaryFrameHeader, 'sequenceNumber'>,
+    payload: Uint8Array
+  ): Promise<number> {
+    await this.acquireCredit();
+    const sequenceNumber = this.sequenceNumber++;
+    this.transmit(sequenceNumber, encodeBinaryFrame({ ...header, sequenceNumber }, payload));
+    return sequenceNumber;
+  }
 
-    this.send(message);
+  private transmit(sequenceNumber: number, data: string | Buffer): void {
+    if (this.unacked.size === 0) this.lastAckAt = Date.now();
+    this.unacked.set(sequenceNumber, data);
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(data);
+    }
   }
 
-  private sendError(error: string): void {
-    const message: StreamMessage = {
-      type: 'ERROR',
-      payload: { message: error },
-      sequenceNumber: this.sequenceNumber++
-    };
+  /**
+   * Wait for room in the send window. A detached stream waits for RESUME;
+   * an attached one gives up when the client stops acknowledging.
+   */
+  private async acquireCredit(): Promise<void> {
+    while (this.unacked.size >= CONFIG.STREAM_WINDOW) {
+      if (this.closedReason) {
+        throw new Error(`Stream ${this.closedReason}`);
+      }
+      const attached = this.ws.readyState === WebSocket.OPEN;
+      if (attached && Date.now() - this.lastAckAt > CONFIG.STREAM_ACK_TIMEOUT_MS) {
+        throw new Error('Timed out waiting for the client to acknowledge messages');
+      }
+      await new Promise<void>((resolve) => {
+        this.creditWaiters.push(resolve);
+        setTimeout(resolve, CREDIT_POLL_MS);
+      });
+    }
+    if (this.closedReason) {
+      throw new Error(`Stream ${this.closedReason}`);
+    }
+  }
 
-    this.send(message);
+  private releaseCredit(): void {
+    const waiters = this.creditWaiters;
+    this.creditWaiters = [];
+    waiters.forEach((resolve) => resolve());
   }
 
-  private send(message: StreamMessage | ImageChunkMessage | CompleteMessage): void {
-    if (this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+  private acknowledge(sequenceNumber: number): void {
+    if (!this.unacked.delete(sequenceNumber)) return;
+    this.lastAckAt = Date.now();
+    this.releaseChunk(sequenceNumber);
+    if (sequenceNumber === this.completeSequence) {
+      this.close('complete');
     }
+    this.releaseCredit();
+  }
+
+  /** Keep the stream resumable for a while after its socket drops */
+  private watch(ws: WebSocket): void {
+    ws.on('close', () => {
+      if (this.ws !== ws || this.closedReason) return;
+      this.resumeTimer = setTimeout(
+        () => this.close('expired'),
+        CONFIG.STREAM_RESUME_TIMEOUT_MS
+      );
+    });
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private close(reason: string): void {
+    if (this.closedReason) return;
+    this.closedReason = reason;
+    sessions.delete(this.streamId);
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    this.unacked.clear();
+    this.imageBuffers.clear();
+    this.chunkFrames.clear();
+    this.releaseCredit();
   }
 }
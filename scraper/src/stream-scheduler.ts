@@ -0,0 +1,108 @@
+import type { IRNode } from '../../ir.js';
+
+/**
+ * Which screenful (of `screenHeight` pixels, from the top) a node starts in
+ */
+export function screenIndex(node: IRNode, screenHeight: number): number {
+  return Math.floor(Math.max(0, node.rect?.y || 0) / Math.max(1, screenHeight));
+}
+
+/**
+ * Streaming priority: nodes on an earlier screenful first, then larger
+ * nodes first. Negative when `a` should be sent before `b`.
+ */
+export function compareNodePriority(a: IRNode, b: IRNode, screenHeight: number): number {
+  const area = (node: IRNode) => (node.rect?.width || 0) * (node.rect?.height || 0);
+  return screenIndex(a, screenHeight) - screenIndex(b, screenHeight) || area(b) - area(a);
+}
+
+/**
+ * Order a page's nodes for streaming: the first screenful first, the rest
+ * top to bottom, by `compareNodePriority`. Parents always come before their
+ * children and siblings keep their DOM order, so the plugin can append
+ * every node to its parent as it arrives.
+ */
+export function scheduleNodes(nodes: IRNode[], screenHeight: number): IRNode[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const position = new Map(nodes.map((node, index) => [node.id, index]));
+
+  // Siblings per parent (roots under ''), in DOM order
+  const siblings = new Map<string, IRNode[]>();
+  for (const node of nodes) {
+    const parentId = node.parent && byId.has(node.parent) ? node.parent : '';
+    if (!siblings.has(parentId)) siblings.set(parentId, []);
+    siblings.get(parentId)!.push(node);
+  }
+  for (const [parentId, group] of siblings) {
+    const order = byId.get(parentId)?.children || [];
+    const rank = (node: IRNode) => {
+      const index = order.indexOf(node.id);
+      return index === -1 ? order.length + position.get(node.id)! : index;
+    };
+    group.sort((a, b) => rank(a) - rank(b));
+  }
+
+  // Each parent offers its next unsent child; the best offer goes next
+  const ready = new PriorityQueue<{ node: IRNode; group: IRNode[]; index: number }>(
+    (a, b) =>
+      compareNodePriority(a.node, b.node, screenHeight) ||
+      position.get(a.node.id)! - position.get(b.node.id)!
+  );
+  const offer = (group: IRNode[] | undefined, index: number) => {
+    if (group && index < group.length) ready.push({ node: group[index], group, index });
+  };
+
+  const ordered: IRNode[] = [];
+  offer(siblings.get(''), 0);
+  while (ready.size > 0) {
+    const { node, group, index } = ready.pop()!;
+    ordered.push(node);
+    offer(group, index + 1);
+    offer(siblings.get(node.id), 0);
+  }
+  return ordered;
+}
+
+/** Binary min-heap ordered by `compare` */
+class PriorityQueue<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === index) break;
+        [items[index], items[smallest]] = [items[smallest], items[index]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
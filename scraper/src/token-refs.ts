@@ -0,0 +1,239 @@
+import type { Page } from 'playwright';
+import type { IRNode } from '../../ir.js';
+import { NODE_ID_ATTRIBUTE, findTaggedNodes, tagElements, untagElements } from './cdp-dom.js';
+
+export type TokenRefs = NonNullable<IRNode['tokenRefs']>;
+
+const CDP_BATCH_SIZE = 25;
+const MAX_TRACED_NODES = 5000;
+const MAX_ALIAS_DEPTH = 5;
+
+/**
+ * Properties traced per ref. Every longhand must resolve to the same
+ * variable; a shorthand declaration counts for all of its longhands.
+ */
+const TRACED_PROPERTIES: Record<
+  keyof TokenRefs,
+  { longhands: string[]; shorthands: string[]; inherited: boolean }
+> = {
+  color: { longhands: ['color'], shorthands: [], inherited: true },
+  backgroundColor: { longhands: ['background-color'], shorthands: ['background'], inherited: false },
+  spacing: { longhands: ['row-gap', 'column-gap'], shorthands: ['gap'], inherited: false },
+  padding: {
+    longhands: ['padding-top', 'padding-right', 'padding-bottom', 'padding-left'],
+    shorthands: ['padding'],
+    inherited: false
+  },
+  radius: {
+    longhands: [
+      'border-top-left-radius',
+      'border-top-right-radius',
+      'border-bottom-right-radius',
+      'border-bottom-left-radius'
+    ],
+    shorthands: ['border-radius'],
+    inherited: false
+  },
+  fontSize: { longhands: ['font-size'], shorthands: ['font'], inherited: true },
+  shadow: { longhands: ['box-shadow'], shorthands: [], inherited: false }
+};
+
+// Subset of the CDP CSS domain types used here
+interface CSSProperty {
+  name: string;
+  value: string;
+  important?: boolean;
+  disabled?: boolean;
+  parsedOk?: boolean;
+}
+
+interface CSSStyle {
+  cssProperties: CSSProperty[];
+}
+
+interface CSSRuleMatch {
+  rule: { style: CSSStyle };
+}
+
+interface MatchedStyles {
+  inlineStyle?: CSSStyle;
+  attributesStyle?: CSSStyle;
+  matchedCSSRules?: CSSRuleMatch[];
+  inherited?: { inlineStyle?: CSSStyle; matchedCSSRules?: CSSRuleMatch[] }[];
+}
+
+/**
+ * For every main-frame node, the CSS variables its color, background, gap,
+ * padding, radius, font size and shadow are declared with. Uses the matched
+ * rules from CDP, so cross-origin stylesheets are covered too. `rootVars`
+ * are the variables defined on :root (`tokens.explicit`); other variables
+ * are followed through `--a: var(--b)` aliases until one of them is reached.
+ */
+export async function extractTokenRefs(
+  page: Page,
+  nodes: { id: string; tag: string; selector?: string; parent?: string; framePath?: string[] }[],
+  rootVars: Record<string, unknown>
+): Promise<Map<string, TokenRefs>> {
+  const refs = new Map<string, TokenRefs>();
+  const targets = nodes
+    .filter((node) => node.selector && !node.framePath?.length)
+    .slice(0, MAX_TRACED_NODES)
+    .map((node) => ({ id: node.id, selector: node.selector! }));
+  if (targets.length === 0 || Object.keys(rootVars).length === 0) return refs;
+
+  await tagElements(page, targets);
+  let verified: [string, Record<string, string>][];
+  try {
+    const session = await page.context().newCDPSession(page);
+    try {
+      const tagged = await findTaggedNodes(session);
+      await session.send('CSS.enable');
+
+      const entries = Array.from(tagged.entries());
+      for (let i = 0; i < entries.length; i += CDP_BATCH_SIZE) {
+        await Promise.all(
+          entries.slice(i, i + CDP_BATCH_SIZE).map(async ([id, nodeId]) => {
+            try {
+              const matched = (await session.send('CSS.getMatchedStylesForNode', {
+                nodeId
+              })) as MatchedStyles;
+              const nodeRefs = resolveTokenRefs(matched, rootVars);
+              if (Object.keys(nodeRefs).length > 0) refs.set(id, nodeRefs);
+            } catch (e) {
+              // Node detached since the DOM pass, skip
+            }
+          })
+        );
+      }
+    } finally {
+      await session.detach().catch(() => {});
+    }
+
+    // Drop refs to variables the element overrides (a scoped `--brand` in a
+    // themed section): binding those to the :root variable would be wrong
+    verified = await page.evaluate(
+      ({ candidates, attribute }) => {
+        const rootStyle = getComputedStyle(document.documentElement);
+        const elements = new Map<string, Element>();
+        const collect = (scope: Document | ShadowRoot) => {
+          scope.querySelectorAll(`[${attribute}]`).forEach((element) => {
+            elements.set(element.getAttribute(attribute)!, element);
+          });
+          scope.querySelectorAll('*').forEach((element) => {
+            if (element.shadowRoot) collect(element.shadowRoot);
+          });
+        };
+        collect(document);
+
+        const kept: [string, Record<string, string>][] = [];
+        for (const [id, nodeRefs] of candidates) {
+          const element = elements.get(id);
+          if (!element) continue;
+          const style = getComputedStyle(element);
+          const matching = Object.entries(nodeRefs).filter(
+            ([, name]) =>
+              style.getPropertyValue(name).trim() === rootStyle.getPropertyValue(name).trim()
+          );
+          if (matching.length > 0) kept.push([id, Object.fromEntries(matching)]);
+        }
+        return kept;
+      },
+      {
+        candidates: Array.from(refs.entries()) as [string, Record<string, string>][],
+        attribute: NODE_ID_ATTRIBUTE
+      }
+    );
+  } finally {
+    await untagElements(page);
+  }
+
+  const result = new Map<string, TokenRefs>(verified);
+
+  // Raw text fragments render with their parent's color and font size
+  for (const node of nodes) {
+    if (node.tag !== '#text' || !node.parent) continue;
+    const parentRefs = result.get(node.parent);
+    if (!parentRefs) continue;
+    const inherited: TokenRefs = {};
+    if (parentRefs.color) inherited.color = parentRefs.color;
+    if (parentRefs.fontSize) inherited.fontSize = parentRefs.fontSize;
+    if (Object.keys(inherited).length > 0) result.set(node.id, inherited);
+  }
+
+  return result;
+}
+
+/**
+ * Pick the variable behind each traced property from an element's matched
+ * styles. Cascades are listed lowest precedence first.
+ */
+function resolveTokenRefs(matched: MatchedStyles, rootVars: Record<string, unknown>): TokenRefs {
+  const own = toCascade(matched.attributesStyle, matched.matchedCSSRules, matched.inlineStyle);
+  const ancestors = (matched.inherited || []).map((entry) =>
+    toCascade(undefined, entry.matchedCSSRules, entry.inlineStyle)
+  );
+
+  const refs: TokenRefs = {};
+  for (const [key, { longhands, shorthands, inherited }] of Object.entries(TRACED_PROPERTIES)) {
+    const cascades = inherited ? [own, ...ancestors] : [own];
+    const names = longhands.map((longhand) =>
+      referencedVariable(winningValue(cascades, [longhand, ...shorthands]))
+    );
+    const name = names[0];
+    if (!name || names.some((other) => other !== name)) continue;
+
+    const rootName = resolveAlias(name, [own, ...ancestors], rootVars);
+    if (rootName) refs[key as keyof TokenRefs] = rootName;
+  }
+  return refs;
+}
+
+function toCascade(
+  attributesStyle: CSSStyle | undefined,
+  rules: CSSRuleMatch[] = [],
+  inlineStyle: CSSStyle | undefined
+): CSSProperty[] {
+  return [
+    ...(attributesStyle?.cssProperties || []),
+    ...rules.flatMap((match) => match.rule.style.cssProperties),
+    ...(inlineStyle?.cssProperties || [])
+  ];
+}
+
+/**
+ * Value of the declaration that wins for any of `names`, checking the
+ * element first and then (for inherited properties) its ancestors
+ */
+function winningValue(cascades: CSSProperty[][], names: string[]): string | undefined {
+  for (const cascade of cascades) {
+    let winner: CSSProperty | undefined;
+    for (const property of cascade) {
+      if (!names.includes(property.name) || property.disabled || property.parsedOk === false) continue;
+      if (!property.value) continue;
+      if (!winner || property.important || !winner.important) winner = property;
+    }
+    if (winner && winner.value.trim() !== 'inherit') return winner.value.trim();
+  }
+  return undefined;
+}
+
+/** `--name` when the value is exactly `var(--name)` or `var(--name, fallback)` */
+function referencedVariable(value: string | undefined): string | undefined {
+  return value?.match(/^var\(\s*(--[\w-]+)\s*(?:,[\s\S]*)?\)$/)?.[1];
+}
+
+/**
+ * Follow `--a: var(--b)` declarations until a :root variable is reached
+ */
+function resolveAlias(
+  name: string,
+  cascades: CSSProperty[][],
+  rootVars: Record<string, unknown>
+): string | undefined {
+  let current: string | undefined = name;
+  for (let depth = 0; current && depth <= MAX_ALIAS_DEPTH; depth++) {
+    if (current in rootVars) return current;
+    current = referencedVariable(winningValue(cascades, [current]));
+  }
+  return undefined;
+}
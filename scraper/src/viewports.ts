@@ -0,0 +1,89 @@
+import { devices } from 'playwright';
+import type { BreakpointInfo, MediaBreakpoint, ViewportSpec } from '../../ir.js';
+
+export type ViewportInput = string | ViewportSpec;
+
+export interface ResolvedViewport extends BreakpointInfo {
+  userAgent: string;
+}
+
+export const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36';
+
+/**
+ * Named breakpoints accepted in place of a Playwright device name
+ */
+export const VIEWPORT_PRESETS: Record<string, ViewportSpec> = {
+  desktop: { width: 1440, height: 900, deviceScaleFactor: 2 },
+  tablet: { device: 'iPad Mini' },
+  mobile: { device: 'iPhone 13' }
+};
+
+/**
+ * Resolve a preset name, Playwright device name or explicit spec into the
+ * settings used for `browser.newContext`. Explicit fields win over the device.
+ */
+export function resolveViewport(input: ViewportInput = 'desktop'): ResolvedViewport {
+  const spec: ViewportSpec =
+    typeof input === 'string'
+      ? VIEWPORT_PRESETS[input.toLowerCase()]
+        ? { name: input.toLowerCase(), ...VIEWPORT_PRESETS[input.toLowerCase()] }
+        : { device: input }
+      : input;
+
+  const device = spec.device ? devices[spec.device] : undefined;
+  if (spec.device && !device) {
+    throw new Error(`Unknown device preset: ${spec.device}`);
+  }
+
+  const width = spec.width ?? device?.viewport.width ?? 1440;
+  const height = spec.height ?? device?.viewport.height ?? 900;
+
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) {
+    throw new Error(`Invalid viewport size: ${width}x${height}`);
+  }
+
+  return {
+    name: spec.name || spec.device || `${width}x${height}`,
+    width,
+    height,
+    deviceScaleFactor: spec.deviceScaleFactor ?? device?.deviceScaleFactor ?? 2,
+    isMobile: spec.isMobile ?? device?.isMobile ?? false,
+    hasTouch: spec.hasTouch ?? device?.hasTouch ?? false,
+    userAgent: spec.userAgent || device?.userAgent || DEFAULT_USER_AGENT
+  };
+}
+
+/** Breakpoints (most used first) turned into extra captures for `viewports: 'auto'` */
+export const MAX_AUTO_BREAKPOINTS = 4;
+const AUTO_PHONE_WIDTH = 375;
+
+/**
+ * One viewport per layout range between a page's @media breakpoints, at the
+ * width where the range starts (a phone width below the smallest one).
+ * The range that `captured` already covers is skipped.
+ */
+export function viewportsFromBreakpoints(
+  breakpoints: MediaBreakpoint[],
+  captured: ResolvedViewport
+): ViewportSpec[] {
+  const widths = breakpoints
+    .slice()
+    .sort((a, b) => b.minRules + b.maxRules - (a.minRules + a.maxRules))
+    .slice(0, MAX_AUTO_BREAKPOINTS)
+    .map((breakpoint) => breakpoint.width)
+    .sort((a, b) => a - b);
+  if (widths.length === 0) return [];
+
+  const rangeOf = (width: number) => widths.filter((start) => start <= width).length;
+  const starts = [Math.min(AUTO_PHONE_WIDTH, widths[0] - 1), ...widths];
+
+  return starts
+    .filter((width, range) => width > 0 && range !== rangeOf(captured.width))
+    .map((width) => ({
+      name: `${width}px`,
+      width,
+      height: captured.height,
+      deviceScaleFactor: captured.deviceScaleFactor
+    }));
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { validateActions } from '../src/actions.js';
+
+describe('validateActions', () => {
+  it('passes a valid recipe through', () => {
+    const actions = [
+      { type: 'click', selector: '#accept' },
+      { type: 'type', selector: 'input', text: '' },
+      { type: 'hover', selector: 'nav' },
+      { type: 'press', key: 'Escape' },
+      { type: 'waitForSelector', selector: '.ready', timeout: 1000 },
+      { type: 'waitForTimeout', ms: 0 },
+      { type: 'scrollTo', y: 400 },
+      { type: 'evaluate', script: 'window.ready = true' }
+    ];
+    expect(validateActions(actions)).toBe(actions);
+  });
+
+  it('treats missing and empty recipes as no actions', () => {
+    expect(validateActions(undefined)).toBeUndefined();
+    expect(validateActions(null)).toBeUndefined();
+    expect(validateActions([])).toBeUndefined();
+  });
+
+  it('rejects anything but an array', () => {
+    expect(() => validateActions({ type: 'click' })).toThrow('actions must be an array');
+  });
+
+  it('names the step and field that is wrong', () => {
+    expect(() => validateActions([{ type: 'click', selector: 'a' }, { type: 'tap' }])).toThrow(
+      /^actions\[1\]\.type must be one of click, type/
+    );
+    expect(() => validateActions([{ type: 'click' }])).toThrow('actions[0].selector is required for click');
+    expect(() => validateActions([{ type: 'type', selector: 'input' }])).toThrow(
+      'actions[0].text is required for type'
+    );
+    expect(() => validateActions([{ type: 'press' }])).toThrow('actions[0].key is required for press');
+    expect(() => validateActions([{ type: 'evaluate', script: '' }])).toThrow(
+      'actions[0].script is required for evaluate'
+    );
+  });
+
+  it('checks numbers and scroll targets', () => {
+    expect(() => validateActions([{ type: 'waitForTimeout', ms: -1 }])).toThrow(
+      'actions[0].ms must be a non-negative number'
+    );
+    expect(() => validateActions([{ type: 'scrollTo' }])).toThrow(
+      'actions[0] needs a selector or x/y coordinates'
+    );
+    expect(() => validateActions([{ type: 'click', selector: 'a', timeout: 'soon' }])).toThrow(
+      'actions[0].timeout must be a non-negative number'
+    );
+  });
+});
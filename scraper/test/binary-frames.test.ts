@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  BINARY_FRAME_VERSION,
+  BINARY_HEADER_SIZE,
+  encodeBinaryFrame
+} from '../src/binary-frames.js';
+
+describe('encodeBinaryFrame', () => {
+  it('writes the header documented on BinaryFrameHeader', () => {
+    const payload = Uint8Array.from([1, 2, 3]);
+    const frame = encodeBinaryFrame(
+      {
+        type: 'IMAGE_CHUNK',
+        sequenceNumber: 0x01020304,
+        breakpoint: 2,
+        nodeId: 'node-é',
+        chunkIndex: 5,
+        totalChunks: 9
+      },
+      payload
+    );
+    const nodeIdLength = Buffer.byteLength('node-é');
+
+    expect(BINARY_HEADER_SIZE).toBe(20);
+    expect(frame.length).toBe(BINARY_HEADER_SIZE + nodeIdLength + payload.length);
+    expect(frame.readUInt8(0)).toBe(1);
+    expect(frame.readUInt8(1)).toBe(BINARY_FRAME_VERSION);
+    expect(frame.readUInt16BE(2)).toBe(nodeIdLength);
+    expect(frame.readUInt32BE(4)).toBe(0x01020304);
+    expect(frame.readUInt32BE(8)).toBe(5);
+    expect(frame.readUInt32BE(12)).toBe(9);
+    expect(frame.readUInt32BE(16)).toBe(2);
+    expect(frame.subarray(BINARY_HEADER_SIZE, BINARY_HEADER_SIZE + nodeIdLength).toString('utf8')).toBe('node-é');
+    expect([...frame.subarray(BINARY_HEADER_SIZE + nodeIdLength)]).toEqual([1, 2, 3]);
+  });
+
+  it('codes each frame type', () => {
+    const typeOf = (type: 'IMAGE_CHUNK' | 'IMAGE_DATA' | 'SCREENSHOT') =>
+      encodeBinaryFrame(
+        { type, sequenceNumber: 0, breakpoint: 0, nodeId: 'a', chunkIndex: 0, totalChunks: 1 },
+        new Uint8Array()
+      ).readUInt8(0);
+
+    expect(typeOf('IMAGE_CHUNK')).toBe(1);
+    expect(typeOf('IMAGE_DATA')).toBe(2);
+    expect(typeOf('SCREENSHOT')).toBe(3);
+  });
+
+  it('rejects node ids longer than the length field', () => {
+    expect(() =>
+      encodeBinaryFrame(
+        {
+          type: 'SCREENSHOT',
+          sequenceNumber: 0,
+          breakpoint: 0,
+          nodeId: 'x'.repeat(0x10000),
+          chunkIndex: 0,
+          totalChunks: 1
+        },
+        new Uint8Array()
+      )
+    ).toThrow('Node id too long');
+  });
+});
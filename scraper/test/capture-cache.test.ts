@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CaptureCache } from '../src/capture-cache.js';
+
+describe('CaptureCache', () => {
+  let dir: string;
+  let now: number;
+
+  const createCache = (options: { ttlMs?: number; maxBytes?: number } = {}) =>
+    new CaptureCache({ dir, ttlMs: options.ttlMs ?? 60_000, maxBytes: options.maxBytes ?? 1_000_000 });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'capture-cache-'));
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('key', () => {
+    it('ignores key order and undefined fields', () => {
+      const cache = createCache();
+      expect(cache.key({ url: 'https://a.test/', mode: 'hybrid', auth: undefined })).toBe(
+        cache.key({ mode: 'hybrid', url: 'https://a.test/' })
+      );
+      expect(cache.key({ viewports: [{ width: 1, height: 2 }] })).toBe(
+        cache.key({ viewports: [{ height: 2, width: 1 }] })
+      );
+    });
+
+    it('differs when any option differs', () => {
+      const cache = createCache();
+      expect(cache.key({ url: 'https://a.test/', mode: 'hybrid' })).not.toBe(
+        cache.key({ url: 'https://a.test/', mode: 'basic' })
+      );
+      expect(cache.key({ viewports: ['desktop', 'mobile'] })).not.toBe(
+        cache.key({ viewports: ['mobile', 'desktop'] })
+      );
+    });
+  });
+
+  it('stores entries on disk and reads them back', async () => {
+    await createCache().set('entry', { nodes: [1, 2, 3] });
+
+    expect(await fs.readdir(dir)).toEqual(['entry.json']);
+    // A new instance rebuilds its index from the directory
+    expect(await createCache().get('entry')).toEqual({ nodes: [1, 2, 3] });
+    expect(await createCache().get('missing')).toBeUndefined();
+  });
+
+  it('expires entries after the TTL', async () => {
+    const cache = createCache({ ttlMs: 1000 });
+    await cache.set('entry', 'value');
+
+    now += 1000;
+    expect(await cache.get('entry')).toBe('value');
+
+    now += 1;
+    expect(await cache.get('entry')).toBeUndefined();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('evicts the least recently used entries past maxBytes', async () => {
+    const value = 'x'.repeat(98); // 100 bytes as JSON
+    const cache = createCache({ maxBytes: 250 });
+
+    await cache.set('a', value);
+    now += 1;
+    await cache.set('b', value);
+    now += 1;
+    await cache.get('a');
+    now += 1;
+    await cache.set('c', value);
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBe(value);
+    expect(await cache.get('c')).toBe(value);
+    expect(cache.getStats()).toEqual({ entries: 2, bytes: 200, maxBytes: 250 });
+  });
+
+  it('skips values larger than the whole cache', async () => {
+    const cache = createCache({ maxBytes: 10 });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await cache.set('big', 'x'.repeat(100));
+    expect(await cache.get('big')).toBeUndefined();
+  });
+
+  it('cleans up temp files left by an interrupted write', async () => {
+    await fs.writeFile(path.join(dir, 'entry.json.1234.tmp'), '{');
+
+    await createCache().get('entry');
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from '@jest/globals';
+import { JobQueue } from '../src/job-queue.js';
+import type { JobContext } from '../src/job-queue.js';
+
+/** A promise with its resolve/reject exposed */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+/** Runner whose jobs finish when the test says so */
+function controlledRunner() {
+  const runs = new Map<string, { result: ReturnType<typeof deferred<string>>; context: JobContext }>();
+  const runner = (request: string, context: JobContext) => {
+    const result = deferred<string>();
+    runs.set(request, { result, context });
+    return result.promise;
+  };
+  return { runs, runner };
+}
+
+const OPTIONS = { concurrency: 1, timeoutMs: 60_000, retentionMs: 60_000 };
+
+describe('JobQueue', () => {
+  it('runs at most `concurrency` jobs, in submission order', async () => {
+    const { runs, runner } = controlledRunner();
+    const queue = new JobQueue(runner, { ...OPTIONS, concurrency: 2 });
+
+    const jobs = ['a', 'b', 'c'].map((request) => queue.submit(request));
+    await tick();
+    expect(jobs.map((job) => job.status)).toEqual(['running', 'running', 'queued']);
+    expect(queue.getStats()).toEqual({ queued: 1, running: 2, total: 3 });
+
+    runs.get('b')!.result.resolve('B');
+    await tick();
+    expect(jobs[1]).toMatchObject({ status: 'completed', result: 'B' });
+    expect(jobs[2].status).toBe('running');
+
+    runs.get('a')!.result.resolve('A');
+    runs.get('c')!.result.resolve('C');
+    await tick();
+    expect(jobs.map((job) => job.status)).toEqual(['completed', 'completed', 'completed']);
+  });
+
+  it('keeps the latest progress while running', async () => {
+    const { runs, runner } = controlledRunner();
+    const queue = new JobQueue(runner, OPTIONS);
+
+    const job = queue.submit('a');
+    expect(job.progress).toEqual({ stage: 'queued' });
+    await tick();
+
+    runs.get('a')!.context.report({ stage: 'scraping_dom', nodes: 5 });
+    expect(job.progress).toEqual({ stage: 'scraping_dom', nodes: 5 });
+
+    runs.get('a')!.result.resolve('A');
+    await tick();
+    expect(job.progress).toEqual({ stage: 'completed', nodes: 5 });
+  });
+
+  it('records runner errors as failures', async () => {
+    const { runs, runner } = controlledRunner();
+    const queue = new JobQueue(runner, OPTIONS);
+
+    const job = queue.submit('a');
+    await tick();
+    runs.get('a')!.result.reject(new Error('navigation failed'));
+    await tick();
+
+    expect(job).toMatchObject({ status: 'failed', error: 'navigation failed' });
+  });
+
+  it('fails jobs that run past the timeout and frees their slot', async () => {
+    const { runs, runner } = controlledRunner();
+    const queue = new JobQueue(runner, { ...OPTIONS, timeoutMs: 20 });
+
+    const slow = queue.submit('slow');
+    const next = queue.submit('next');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(slow).toMatchObject({ status: 'failed', error: 'Job timed out after 20ms' });
+    expect(runs.get('slow')!.context.signal.aborted).toBe(true);
+    // `next` got the slot as soon as `slow` was aborted
+    expect(runs.has('next')).toBe(true);
+    expect(next.startedAt).toBeDefined();
+  });
+
+  it('cancels queued and running jobs', async () => {
+    const { runs, runner } = controlledRunner();
+    const queue = new JobQueue(runner, OPTIONS);
+
+    const running = queue.submit('running');
+    const queued = queue.submit('queued');
+    await tick();
+
+    expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+    expect(runs.has('queued')).toBe(false);
+
+    queue.cancel(running.id);
+    expect(running.status).toBe('cancelled');
+    expect(runs.get('running')!.context.signal.aborted).toBe(true);
+    await tick();
+    expect(running).toMatchObject({ status: 'cancelled', error: 'Job cancelled' });
+    expect(running.finishedAt).toBeDefined();
+    expect(queue.getStats()).toEqual({ queued: 0, running: 0, total: 2 });
+
+    expect(queue.cancel('unknown')).toBeUndefined();
+  });
+
+  it('only removes finished jobs', async () => {
+    const { runs, runner } = controlledRunner();
+    const queue = new JobQueue(runner, OPTIONS);
+
+    const job = queue.submit('a');
+    await tick();
+    expect(queue.remove(job.id)).toBe(false);
+
+    runs.get('a')!.result.resolve('A');
+    await tick();
+    expect(queue.remove(job.id)).toBe(true);
+    expect(queue.get(job.id)).toBeUndefined();
+  });
+});
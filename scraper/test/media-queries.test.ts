@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { mergeBreakpoints, parseWidthConditions } from '../src/media-queries.js';
+
+describe('parseWidthConditions', () => {
+  it('reads min-width as a lower bound at its own width', () => {
+    expect(parseWidthConditions('(min-width: 768px)')).toEqual([{ width: 768, bound: 'min' }]);
+  });
+
+  it('moves max-width one pixel past the last matching width', () => {
+    expect(parseWidthConditions('(max-width: 767px)')).toEqual([{ width: 768, bound: 'max' }]);
+    expect(parseWidthConditions('(max-width: 767.98px)')).toEqual([{ width: 768, bound: 'max' }]);
+  });
+
+  it('converts em and rem at 16px', () => {
+    expect(parseWidthConditions('(min-width: 48em)')).toEqual([{ width: 768, bound: 'min' }]);
+    expect(parseWidthConditions('(max-width: 40rem)')).toEqual([{ width: 641, bound: 'max' }]);
+  });
+
+  it('reads both ends of a combined query', () => {
+    expect(
+      parseWidthConditions('screen and (min-width: 768px) and (max-width: 1023px)')
+    ).toEqual([
+      { width: 768, bound: 'min' },
+      { width: 1024, bound: 'max' }
+    ]);
+  });
+
+  it('reads range syntax on either side of width', () => {
+    expect(parseWidthConditions('(width >= 768px)')).toEqual([{ width: 768, bound: 'min' }]);
+    expect(parseWidthConditions('(width > 767px)')).toEqual([{ width: 768, bound: 'min' }]);
+    expect(parseWidthConditions('(width < 1024px)')).toEqual([{ width: 1024, bound: 'max' }]);
+    expect(parseWidthConditions('(width <= 1023px)')).toEqual([{ width: 1024, bound: 'max' }]);
+    expect(parseWidthConditions('(768px <= width < 1024px)')).toEqual([
+      { width: 768, bound: 'min' },
+      { width: 1024, bound: 'max' }
+    ]);
+  });
+
+  it('ignores height, print-only and zero-width conditions', () => {
+    expect(parseWidthConditions('(min-height: 600px)')).toEqual([]);
+    expect(parseWidthConditions('print')).toEqual([]);
+    expect(parseWidthConditions('(min-width: 0)')).toEqual([]);
+  });
+});
+
+describe('mergeBreakpoints', () => {
+  it('groups conditions by width, smallest first', () => {
+    const breakpoints = mergeBreakpoints([
+      '(min-width: 1024px)',
+      '(min-width: 768px)',
+      '(max-width: 767px)',
+      '(min-width: 768px) and (max-width: 1023px)'
+    ]);
+
+    expect(breakpoints.map((breakpoint) => breakpoint.width)).toEqual([768, 1024]);
+    expect(breakpoints[0]).toMatchObject({ width: 768, minRules: 2, maxRules: 1 });
+    expect(breakpoints[1]).toMatchObject({ width: 1024, minRules: 1, maxRules: 1 });
+  });
+
+  it('keeps each query once, up to five per breakpoint', () => {
+    const queries = Array.from({ length: 7 }, (_, index) => `(min-width: 768px) and (hover: hover) and (--q: ${index})`);
+    const [breakpoint] = mergeBreakpoints([...queries, queries[0]]);
+
+    expect(breakpoint.minRules).toBe(8);
+    expect(breakpoint.queries).toEqual(queries.slice(0, 5));
+  });
+
+  it('returns nothing without width conditions', () => {
+    expect(mergeBreakpoints(['print', '(prefers-color-scheme: dark)'])).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import type { IRNode } from '../../ir.js';
+import { compareNodePriority, scheduleNodes, screenIndex } from '../src/stream-scheduler.js';
+
+const SCREEN = 800;
+
+function node(
+  id: string,
+  rect: { y: number; height?: number; width?: number },
+  parent?: string,
+  children: string[] = []
+): IRNode {
+  return {
+    id,
+    type: 'FRAME',
+    tag: 'div',
+    parent,
+    children,
+    rect: { x: 0, y: rect.y, width: rect.width ?? 100, height: rect.height ?? 100 }
+  } as IRNode;
+}
+
+const ids = (nodes: IRNode[]) => nodes.map((item) => item.id);
+
+describe('screenIndex', () => {
+  it('counts screenfuls from the top', () => {
+    expect(screenIndex(node('a', { y: 0 }), SCREEN)).toBe(0);
+    expect(screenIndex(node('a', { y: 799 }), SCREEN)).toBe(0);
+    expect(screenIndex(node('a', { y: 800 }), SCREEN)).toBe(1);
+    expect(screenIndex(node('a', { y: -50 }), SCREEN)).toBe(0);
+  });
+});
+
+describe('compareNodePriority', () => {
+  it('puts earlier screenfuls first, then larger nodes', () => {
+    const top = node('top', { y: 0, height: 10 });
+    const below = node('below', { y: 900, height: 500 });
+    const large = node('large', { y: 100, height: 400 });
+
+    expect(compareNodePriority(top, below, SCREEN)).toBeLessThan(0);
+    expect(compareNodePriority(large, top, SCREEN)).toBeLessThan(0);
+  });
+});
+
+describe('scheduleNodes', () => {
+  it('sends the first screenful before content further down', () => {
+    const nodes = [
+      node('root', { y: 0, height: 3000 }, undefined, ['header', 'footer']),
+      node('header', { y: 0 }, 'root', ['logo']),
+      node('footer', { y: 2500 }, 'root', ['legal']),
+      node('legal', { y: 2600 }, 'footer'),
+      node('logo', { y: 10 }, 'header')
+    ];
+    expect(ids(scheduleNodes(nodes, SCREEN))).toEqual(['root', 'header', 'logo', 'footer', 'legal']);
+  });
+
+  it('always sends parents before their children', () => {
+    const nodes = [
+      node('deep', { y: 10, height: 700 }, 'inner'),
+      node('inner', { y: 1600, height: 10 }, 'root', ['deep']),
+      node('root', { y: 0, height: 2000 }, undefined, ['inner'])
+    ];
+    const order = ids(scheduleNodes(nodes, SCREEN));
+
+    expect(order.indexOf('root')).toBeLessThan(order.indexOf('inner'));
+    expect(order.indexOf('inner')).toBeLessThan(order.indexOf('deep'));
+  });
+
+  it("keeps siblings in their parent's DOM order", () => {
+    const nodes = [
+      node('root', { y: 0, height: 2000 }, undefined, ['c', 'a', 'b']),
+      node('a', { y: 0, height: 500 }, 'root'),
+      node('b', { y: 0, height: 700 }, 'root'),
+      node('c', { y: 1200, height: 10 }, 'root')
+    ];
+    expect(ids(scheduleNodes(nodes, SCREEN))).toEqual(['root', 'c', 'a', 'b']);
+  });
+
+  it('interleaves subtrees by priority', () => {
+    const nodes = [
+      node('root', { y: 0, height: 3000 }, undefined, ['top', 'bottom']),
+      node('top', { y: 0, height: 600 }, 'root', ['top-child']),
+      node('bottom', { y: 900, height: 600 }, 'root', ['bottom-child']),
+      node('top-child', { y: 1000 }, 'top'),
+      node('bottom-child', { y: 950 }, 'bottom')
+    ];
+    // The first screen (`top`) goes out first; everything else is on screen 1
+    // and ordered by size, parents still ahead of their children
+    expect(ids(scheduleNodes(nodes, SCREEN))).toEqual(['root', 'top', 'bottom', 'top-child', 'bottom-child']);
+  });
+
+  it('schedules every node, including orphans whose parent is missing', () => {
+    const nodes = [
+      node('root', { y: 0 }, undefined, ['a']),
+      node('a', { y: 0 }, 'root'),
+      node('orphan', { y: 2000 }, 'gone')
+    ];
+    expect(ids(scheduleNodes(nodes, SCREEN)).sort()).toEqual(['a', 'orphan', 'root']);
+  });
+});
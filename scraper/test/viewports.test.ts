@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import type { MediaBreakpoint } from '../../ir.js';
+import {
+  DEFAULT_USER_AGENT,
+  MAX_AUTO_BREAKPOINTS,
+  resolveViewport,
+  viewportsFromBreakpoints
+} from '../src/viewports.js';
+
+const breakpoint = (width: number, rules = 1): MediaBreakpoint => ({
+  width,
+  minRules: rules,
+  maxRules: 0,
+  queries: []
+});
+
+describe('resolveViewport', () => {
+  it('defaults to the desktop preset', () => {
+    expect(resolveViewport()).toEqual({
+      name: 'desktop',
+      width: 1440,
+      height: 900,
+      deviceScaleFactor: 2,
+      isMobile: false,
+      hasTouch: false,
+      userAgent: DEFAULT_USER_AGENT
+    });
+  });
+
+  it('resolves presets case-insensitively through their Playwright device', () => {
+    const mobile = resolveViewport('Mobile');
+    expect(mobile).toMatchObject({ name: 'mobile', width: 390, height: 664, isMobile: true, hasTouch: true });
+    expect(mobile.userAgent).toContain('iPhone');
+  });
+
+  it('accepts a Playwright device name', () => {
+    expect(resolveViewport('iPad Mini')).toMatchObject({ name: 'iPad Mini', width: 768, isMobile: true });
+  });
+
+  it('lets explicit fields win over the device', () => {
+    expect(resolveViewport({ device: 'iPhone 13', width: 400, deviceScaleFactor: 1 })).toMatchObject({
+      name: 'iPhone 13',
+      width: 400,
+      height: 664,
+      deviceScaleFactor: 1
+    });
+  });
+
+  it('names explicit sizes after their dimensions', () => {
+    expect(resolveViewport({ width: 800, height: 600 })).toMatchObject({
+      name: '800x600',
+      deviceScaleFactor: 2,
+      userAgent: DEFAULT_USER_AGENT
+    });
+  });
+
+  it('rejects unknown devices and invalid sizes', () => {
+    expect(() => resolveViewport('Nokia 3310')).toThrow('Unknown device preset: Nokia 3310');
+    expect(() => resolveViewport({ width: 0, height: 600 })).toThrow('Invalid viewport size: 0x600');
+  });
+});
+
+describe('viewportsFromBreakpoints', () => {
+  const desktop = resolveViewport('desktop');
+
+  it('adds one viewport per range the capture did not cover', () => {
+    const viewports = viewportsFromBreakpoints([breakpoint(768), breakpoint(1024)], desktop);
+
+    expect(viewports).toEqual([
+      { name: '375px', width: 375, height: 900, deviceScaleFactor: 2 },
+      { name: '768px', width: 768, height: 900, deviceScaleFactor: 2 }
+    ]);
+  });
+
+  it('starts the smallest range just below the first breakpoint', () => {
+    const viewports = viewportsFromBreakpoints([breakpoint(320)], desktop);
+    expect(viewports.map((viewport) => viewport.width)).toEqual([319]);
+  });
+
+  it(`keeps the ${MAX_AUTO_BREAKPOINTS} most used breakpoints`, () => {
+    const breakpoints = [
+      breakpoint(480, 1),
+      breakpoint(640, 9),
+      breakpoint(768, 8),
+      breakpoint(1024, 7),
+      breakpoint(1280, 6)
+    ];
+    const viewports = viewportsFromBreakpoints(breakpoints, desktop);
+    expect(viewports.map((viewport) => viewport.width)).toEqual([375, 640, 768, 1024]);
+  });
+
+  it('returns nothing without breakpoints', () => {
+    expect(viewportsFromBreakpoints([], desktop)).toEqual([]);
+  });
+});